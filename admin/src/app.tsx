@@ -66,6 +66,46 @@ class App extends GenericApp {
         // executed when connection is ready
     }
 
+    /**
+     * Encrypt the API tokens of the server list before saving.
+     * encryptedNative only covers top-level settings.
+     * Servers without object ID get one from their name, so later renames keep the object tree.
+     *
+     * @param settings - Native settings to be saved
+     * @returns Whether the settings may be saved
+     */
+    public onPrepareSave(settings: Record<string, any>): boolean {
+        if (Array.isArray(settings.servers)) {
+            settings.servers = settings.servers.map((server: Record<string, unknown>) => {
+                const id = typeof server.id === 'string' ? server.id.trim() : '';
+                const name = typeof server.name === 'string' ? server.name.trim() : '';
+                return {
+                    ...server,
+                    id: id || name.replace(/[^A-Za-z0-9_-]/g, '_'),
+                    apiToken:
+                        typeof server.apiToken === 'string' && server.apiToken ? this.encrypt(server.apiToken) : '',
+                };
+            });
+        }
+        return super.onPrepareSave(settings);
+    }
+
+    /**
+     * Decrypt the API tokens of the server list after loading.
+     *
+     * @param settings - Loaded native settings
+     * @param encryptedNative - Top-level settings to be decrypted
+     */
+    public onPrepareLoad(settings: Record<string, any>, encryptedNative: string[]): void {
+        super.onPrepareLoad(settings, encryptedNative);
+        if (Array.isArray(settings.servers)) {
+            settings.servers = settings.servers.map((server: Record<string, unknown>) => ({
+                ...server,
+                apiToken: typeof server.apiToken === 'string' && server.apiToken ? this.decrypt(server.apiToken) : '',
+            }));
+        }
+    }
+
     /**
      * Render the application UI.
      *
@@ -5,6 +5,7 @@ import Checkbox from '@material-ui/core/Checkbox';
 import FormControlLabel from '@material-ui/core/FormControlLabel';
 import Typography from '@material-ui/core/Typography';
 import Divider from '@material-ui/core/Divider';
+import Button from '@material-ui/core/Button';
 import I18n from '@iobroker/adapter-react/i18n';
 
 import {
@@ -16,6 +17,7 @@ import {
     allDomainIds,
     getDomainAncestors,
     domainNodeById,
+    domainDefinitionById,
 } from '../../../src/shared/unraid-domains';
 
 // Local type for admin words
@@ -43,6 +45,16 @@ const styles = (theme: Theme): ReturnType<typeof createStyles> =>
         controlElement: {
             marginBottom: 16,
         },
+        serverRow: {
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: 8,
+            marginBottom: 8,
+        },
+        serverField: {
+            flex: '1 1 160px',
+        },
         treeContainer: {
             border: `1px solid ${theme.palette.type === 'dark' ? '#555' : '#cccccc'}`,
             borderRadius: 4,
@@ -80,6 +92,10 @@ const styles = (theme: Theme): ReturnType<typeof createStyles> =>
             flexGrow: 1,
             color: theme.palette.text.primary,
         },
+        domainInterval: {
+            width: 120,
+            marginLeft: 8,
+        },
         treeChildren: {
             marginLeft: 28,
         },
@@ -102,6 +118,33 @@ type SettingsProps = WithStyles<typeof styles> & {
     themeType?: string;
 };
 
+/**
+ * Include/exclude name patterns of one resource type, comma separated
+ */
+type ResourceFilterEntry = {
+    include?: string;
+    exclude?: string;
+};
+
+/** Resource types with name filters, in display order */
+const FILTERED_RESOURCE_TYPES = ['docker', 'vm', 'share', 'hardwareDisk'] as const;
+
+/**
+ * Connection settings of one entry in the server list
+ */
+type ServerEntry = {
+    /** Object ID of the server subtree, set from the name on save when empty */
+    id: string;
+    /** Display name of the server */
+    name: string;
+    /** Base URL of the Unraid server */
+    baseUrl: string;
+    /** API token for Unraid authentication */
+    apiToken: string;
+    /** Allow self-signed SSL certificates */
+    allowSelfSigned: boolean;
+};
+
 /**
  * State for the Settings component
  */
@@ -291,6 +334,204 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
         );
     }
 
+    /**
+     * Render the optional polling interval input of a selected domain.
+     *
+     * @param domainId - Domain the interval applies to
+     * @returns TextField component for the domain interval
+     */
+    private renderDomainInterval(domainId: DomainId): React.ReactNode {
+        const { classes, native } = this.props;
+        const intervals = (native.domainIntervals ?? {}) as Partial<Record<DomainId, number>>;
+        const value = intervals[domainId];
+
+        const updateInterval = (seconds: number | undefined): void => {
+            const next = { ...intervals };
+            if (seconds === undefined) {
+                delete next[domainId];
+            } else {
+                next[domainId] = seconds;
+            }
+            this.props.onChange('domainIntervals', next);
+        };
+
+        return (
+            <TextField
+                label={I18n.t('domainInterval')}
+                className={classes.domainInterval}
+                value={value ?? ''}
+                type="number"
+                size="small"
+                placeholder={String(native.pollIntervalSeconds || 60)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: 5, step: 5 }}
+                onChange={event => {
+                    // Empty input falls back to the general polling interval
+                    const parsed = Number(event.target.value);
+                    updateInterval(
+                        event.target.value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined,
+                    );
+                }}
+                onBlur={() => {
+                    if (value !== undefined && value < 5) {
+                        updateInterval(5);
+                    }
+                }}
+            />
+        );
+    }
+
+    /**
+     * Render the list of Unraid servers that each get their own object tree.
+     *
+     * @returns Section with one row per server
+     */
+    private renderServers(): React.ReactNode {
+        const { classes, native } = this.props;
+        const servers = (Array.isArray(native.servers) ? native.servers : []) as ServerEntry[];
+
+        const updateServers = (next: ServerEntry[]): void => {
+            this.props.onChange('servers', next as unknown as ioBroker.AdapterConfig['servers']);
+        };
+        const updateServer = (index: number, changes: Partial<ServerEntry>): void => {
+            updateServers(servers.map((server, position) => (position === index ? { ...server, ...changes } : server)));
+        };
+
+        return (
+            <div className={classes.section}>
+                <Typography
+                    variant="h6"
+                    className={classes.sectionHeader}
+                >
+                    {I18n.t('section.servers')}
+                </Typography>
+                <Typography
+                    variant="body2"
+                    color="textSecondary"
+                    className={classes.controlElement}
+                >
+                    {I18n.t('servers_help')}
+                </Typography>
+                {servers.map((server, index) => (
+                    <div
+                        key={index}
+                        className={classes.serverRow}
+                    >
+                        <TextField
+                            label={I18n.t('serverName')}
+                            className={classes.serverField}
+                            value={server.name ?? ''}
+                            onChange={event => updateServer(index, { name: event.target.value })}
+                            required
+                        />
+                        <TextField
+                            label={I18n.t('serverId')}
+                            className={classes.serverField}
+                            value={server.id ?? ''}
+                            placeholder={I18n.t('serverId_placeholder')}
+                            onChange={event => updateServer(index, { id: event.target.value })}
+                        />
+                        <TextField
+                            label={I18n.t('baseUrl')}
+                            className={classes.serverField}
+                            value={server.baseUrl ?? ''}
+                            onChange={event => updateServer(index, { baseUrl: event.target.value })}
+                            required
+                        />
+                        <TextField
+                            label={I18n.t('apiToken')}
+                            className={classes.serverField}
+                            value={server.apiToken ?? ''}
+                            type="password"
+                            autoComplete="off"
+                            onChange={event => updateServer(index, { apiToken: event.target.value })}
+                            required
+                        />
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    color="primary"
+                                    checked={!!server.allowSelfSigned}
+                                    onChange={(_event, checked) => updateServer(index, { allowSelfSigned: checked })}
+                                />
+                            }
+                            label={I18n.t('allowSelfSigned')}
+                        />
+                        <Button
+                            onClick={() => updateServers(servers.filter((_server, position) => position !== index))}
+                        >
+                            {I18n.t('removeServer')}
+                        </Button>
+                    </div>
+                ))}
+                <Button
+                    variant="outlined"
+                    color="primary"
+                    onClick={() =>
+                        updateServers([
+                            ...servers,
+                            { id: '', name: '', baseUrl: '', apiToken: '', allowSelfSigned: false },
+                        ])
+                    }
+                >
+                    {I18n.t('addServer')}
+                </Button>
+            </div>
+        );
+    }
+
+    /**
+     * Render the include/exclude name patterns per dynamic resource type.
+     *
+     * @returns Section with one row per resource type
+     */
+    private renderResourceFilters(): React.ReactNode {
+        const { classes, native } = this.props;
+        const filters = (native.resourceFilters ?? {}) as Record<string, ResourceFilterEntry | undefined>;
+
+        const updateFilter = (type: string, changes: ResourceFilterEntry): void => {
+            const next = { ...filters, [type]: { ...filters[type], ...changes } };
+            this.props.onChange('resourceFilters', next as unknown as ioBroker.AdapterConfig['resourceFilters']);
+        };
+
+        return (
+            <div className={classes.section}>
+                <Typography
+                    variant="h6"
+                    className={classes.sectionHeader}
+                >
+                    {I18n.t('section.resourceFilters')}
+                </Typography>
+                <Typography
+                    variant="body2"
+                    color="textSecondary"
+                    className={classes.controlElement}
+                >
+                    {I18n.t('resourceFilters_help')}
+                </Typography>
+                {FILTERED_RESOURCE_TYPES.map(type => (
+                    <div
+                        key={type}
+                        className={classes.serverRow}
+                    >
+                        <TextField
+                            label={`${I18n.t(`resourceFilters.${type}`)}: ${I18n.t('resourceFilters.include')}`}
+                            className={classes.serverField}
+                            value={filters[type]?.include ?? ''}
+                            onChange={event => updateFilter(type, { include: event.target.value })}
+                        />
+                        <TextField
+                            label={`${I18n.t(`resourceFilters.${type}`)}: ${I18n.t('resourceFilters.exclude')}`}
+                            className={classes.serverField}
+                            value={filters[type]?.exclude ?? ''}
+                            onChange={event => updateFilter(type, { exclude: event.target.value })}
+                        />
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
     private toggleDomainExpansion = (id: string): void => {
         this.setState(prev => {
             const next = new Set(prev.expandedDomainIds);
@@ -386,6 +627,7 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
                         }
                         label={I18n.t(node.label as AdminWord)}
                     />
+                    {isChecked && domainDefinitionById.has(node.id) ? this.renderDomainInterval(node.id) : null}
                 </div>
                 {node.description ? (
                     <Typography
@@ -461,6 +703,10 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
 
                 <Divider />
 
+                {this.renderServers()}
+
+                <Divider />
+
                 <div className={classes.section}>
                     <Typography
                         variant="h6"
@@ -469,23 +715,63 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
                         {I18n.t('section.polling')}
                     </Typography>
                     {this.renderPollInterval()}
-                    {/* Subscription support temporarily disabled due to Unraid API issues
                     <div className={classes.controlElement}>
                         <FormControlLabel
                             control={
                                 <Checkbox
                                     color="primary"
                                     checked={!!native.useSubscriptions}
-                                    onChange={(event, checked) => this.props.onChange('useSubscriptions', checked)}
+                                    onChange={(_event, checked) => this.props.onChange('useSubscriptions', checked)}
                                 />
                             }
                             label={I18n.t('useSubscriptions')}
                         />
-                        <Typography variant="caption" color="textSecondary" style={{ display: 'block', marginLeft: 32 }}>
+                        <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            style={{ display: 'block', marginLeft: 32 }}
+                        >
                             {I18n.t('useSubscriptions_help')}
                         </Typography>
                     </div>
-                    */}
+                    <div className={classes.controlElement}>
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    color="primary"
+                                    checked={!!native.markStaleWhenOffline}
+                                    onChange={(_event, checked) => this.props.onChange('markStaleWhenOffline', checked)}
+                                />
+                            }
+                            label={I18n.t('markStaleWhenOffline')}
+                        />
+                        <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            style={{ display: 'block', marginLeft: 32 }}
+                        >
+                            {I18n.t('markStaleWhenOffline_help')}
+                        </Typography>
+                    </div>
+                    <div className={classes.controlElement}>
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    color="primary"
+                                    checked={!!native.stableResourceIds}
+                                    onChange={(_event, checked) => this.props.onChange('stableResourceIds', checked)}
+                                />
+                            }
+                            label={I18n.t('stableResourceIds')}
+                        />
+                        <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            style={{ display: 'block', marginLeft: 32 }}
+                        >
+                            {I18n.t('stableResourceIds_help')}
+                        </Typography>
+                    </div>
                 </div>
 
                 <Divider />
@@ -502,12 +788,16 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
                         color="textSecondary"
                         className={classes.controlElement}
                     >
-                        {I18n.t('enabledDomains_help')}
+                        {I18n.t('enabledDomains_help')} {I18n.t('domainIntervals_help')}
                     </Typography>
                     <div className={classes.treeContainer}>
                         {domainTree.map(node => this.renderDomainNode(node, 0, selection))}
                     </div>
                 </div>
+
+                <Divider />
+
+                {this.renderResourceFilters()}
             </form>
         );
     }
@@ -1,11 +1,20 @@
 import { ApolloClient, InMemoryCache, split, HttpLink, gql } from '@apollo/client/core';
 import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
 import { getMainDefinition } from '@apollo/client/utilities';
-import { createClient } from 'graphql-ws';
+import { CloseCode, createClient } from 'graphql-ws';
+import type { GraphQLFormattedError } from 'graphql';
 import type { ClientOptions } from 'ws';
 import WebSocket from 'ws';
 import { fetch, Agent } from 'undici';
 import type { AdapterInterface } from './types/adapter-types';
+import type { IntrospectionSchema } from './graphql/schema-capabilities';
+import { SCHEMA_INTROSPECTION_QUERY } from './graphql/queries';
+
+/** Upper bound for the delay between WebSocket reconnection attempts (milliseconds) */
+const WS_MAX_RETRY_WAIT_MS = 60000;
+
+/** Close codes of a rejected API key, reconnecting would fail the same way */
+const WS_AUTH_CLOSE_CODES: ReadonlySet<number> = new Set([CloseCode.Unauthorized, CloseCode.Forbidden]);
 
 /**
  * Configuration options for the Unraid Apollo GraphQL client
@@ -21,6 +30,16 @@ export interface ApolloClientOptions {
     logger: AdapterInterface['log'];
 }
 
+/**
+ * Result of a query that tolerates errors in single fields
+ */
+export interface PartialQueryResult<T> {
+    /** Data that could be resolved, failed fields are null */
+    data: T | null;
+    /** GraphQL errors of the failed fields */
+    errors: readonly GraphQLFormattedError[];
+}
+
 /**
  * Apollo GraphQL client wrapper for Unraid server communication.
  * Handles both HTTP queries/mutations and WebSocket subscriptions.
@@ -36,6 +55,12 @@ export class UnraidApolloClient {
     private readonly apiToken: string;
     /** Logger instance for structured logging */
     private readonly logger: AdapterInterface['log'];
+    /** Whether the WebSocket connection is currently acknowledged by the server */
+    private wsConnected = false;
+    /** Listeners notified when the WebSocket connection state changes */
+    private readonly connectionListeners = new Set<(connected: boolean) => void>();
+    /** Timer of the pending wait before the next WebSocket reconnection attempt */
+    private retryWaitTimer?: ReturnType<typeof setTimeout>;
 
     /**
      * Creates a new Unraid Apollo client instance
@@ -84,9 +109,16 @@ export class UnraidApolloClient {
             connectionParams: {
                 'x-api-key': this.apiToken,
             },
-            retryAttempts: 5,
-            shouldRetry: () => true,
+            // Keep reconnecting while subscriptions are active, unless the API key was rejected;
+            // backoff is capped at one minute
+            retryAttempts: Number.POSITIVE_INFINITY,
+            retryWait: retries => this.waitForRetry(Math.min(1000 * 2 ** retries, WS_MAX_RETRY_WAIT_MS)),
+            shouldRetry: errOrCloseEvent => !this.isAuthCloseEvent(errOrCloseEvent),
             keepAlive: 30000,
+            on: {
+                connected: () => this.setWsConnected(true),
+                closed: () => this.setWsConnected(false),
+            },
         });
 
         // Create HTTP link for queries and mutations
@@ -140,6 +172,22 @@ export class UnraidApolloClient {
         return result.data;
     }
 
+    /**
+     * Execute a GraphQL query and keep the data of fields that resolved
+     * when other fields of the same query fail
+     *
+     * @param query - The GraphQL query string
+     * @returns Promise resolving to the partial data and the field errors
+     * @template T - Type of the expected query result
+     */
+    async queryPartial<T = unknown>(query: string): Promise<PartialQueryResult<T>> {
+        const result = await this.client.query<T>({
+            query: gql(query),
+            errorPolicy: 'all',
+        });
+        return { data: result.data ?? null, errors: result.errors ?? [] };
+    }
+
     /**
      * Execute a GraphQL mutation against the Unraid server
      *
@@ -189,42 +237,16 @@ export class UnraidApolloClient {
     }
 
     /**
-     * Run an introspection query to discover available GraphQL subscriptions.
-     * Useful for debugging and discovering the Unraid API schema.
+     * Run an introspection query to discover the types and fields the Unraid API supports
      *
-     * @returns Promise resolving to subscription type information or null if failed
+     * @returns Promise resolving to the introspected schema or null if introspection failed
      */
-    async introspectSubscriptions(): Promise<unknown> {
-        const introspectionQuery = `
-            query IntrospectionQuery {
-                __schema {
-                    subscriptionType {
-                        name
-                        fields {
-                            name
-                            description
-                            args {
-                                name
-                                type {
-                                    name
-                                    kind
-                                }
-                            }
-                            type {
-                                name
-                                kind
-                            }
-                        }
-                    }
-                }
-            }
-        `;
-
+    async introspectSchema(): Promise<IntrospectionSchema | null> {
         try {
-            const result = await this.query<{ __schema?: { subscriptionType?: unknown } }>(introspectionQuery);
-            return result?.__schema?.subscriptionType;
+            const result = await this.query<{ __schema?: IntrospectionSchema }>(SCHEMA_INTROSPECTION_QUERY);
+            return result?.__schema ?? null;
         } catch (error) {
-            this.logger.warn(`Failed to introspect subscriptions: ${error}`);
+            this.logger.warn(`Failed to introspect schema: ${error}`);
             return null;
         }
     }
@@ -236,6 +258,10 @@ export class UnraidApolloClient {
      * @returns Promise that resolves when cleanup is complete
      */
     async dispose(): Promise<void> {
+        // The pending reconnection attempt is dropped, its wait never resolves
+        clearTimeout(this.retryWaitTimer);
+        this.retryWaitTimer = undefined;
+        this.connectionListeners.clear();
         this.client.stop();
         await this.wsClient.dispose();
     }
@@ -243,57 +269,67 @@ export class UnraidApolloClient {
     /**
      * Check if the WebSocket connection is established
      *
-     * @returns True if WebSocket client exists, false otherwise
+     * @returns True if the server acknowledged the WebSocket connection and it is still open
      */
     isConnected(): boolean {
-        // This is a simplified check - you might want to implement more sophisticated logic
-        return this.wsClient !== null;
+        return this.wsConnected;
     }
-}
 
-/**
- * GraphQL subscription for comprehensive system metrics.
- * Includes both CPU and memory statistics.
- */
-export const METRICS_SUBSCRIPTION = `
-    subscription MetricsSubscription {
-        metrics {
-            cpu {
-                percentTotal
-            }
-            memory {
-                percentTotal
-                total
-                used
-                free
-            }
-        }
+    /**
+     * Register a listener for WebSocket connection changes
+     *
+     * @param listener - Called with the new connection state
+     * @returns Function that removes the listener again
+     */
+    onConnectionChange(listener: (connected: boolean) => void): () => void {
+        this.connectionListeners.add(listener);
+        return () => {
+            this.connectionListeners.delete(listener);
+        };
     }
-`;
 
-/**
- * GraphQL subscription for CPU metrics only.
- * Returns the total CPU usage percentage.
- */
-export const CPU_SUBSCRIPTION = `
-    subscription CpuSubscription {
-        cpu {
-            percentTotal
+    /**
+     * Update the WebSocket connection state and notify listeners on change
+     *
+     * @param connected - New connection state
+     */
+    private setWsConnected(connected: boolean): void {
+        if (this.wsConnected === connected) {
+            return;
+        }
+        this.wsConnected = connected;
+        this.logger.debug(`WebSocket ${connected ? 'connected' : 'disconnected'}`);
+
+        for (const listener of this.connectionListeners) {
+            listener(connected);
         }
     }
-`;
 
-/**
- * GraphQL subscription for memory metrics.
- * Includes total, used, free memory and usage percentage.
- */
-export const MEMORY_SUBSCRIPTION = `
-    subscription MemorySubscription {
-        memory {
-            percentTotal
-            total
-            used
-            free
+    /**
+     * Wait before the next WebSocket reconnection attempt, cancelled by dispose()
+     *
+     * @param delayMs - Delay in milliseconds
+     */
+    private waitForRetry(delayMs: number): Promise<void> {
+        return new Promise(resolve => {
+            this.retryWaitTimer = setTimeout(() => {
+                this.retryWaitTimer = undefined;
+                resolve();
+            }, delayMs);
+        });
+    }
+
+    /**
+     * Check whether the WebSocket was closed because the API key was rejected
+     *
+     * @param errOrCloseEvent - Close event or connection error reported by graphql-ws
+     */
+    private isAuthCloseEvent(errOrCloseEvent: unknown): boolean {
+        const code = (errOrCloseEvent as { code?: unknown } | null)?.code;
+        if (typeof code !== 'number' || !WS_AUTH_CLOSE_CODES.has(code)) {
+            return false;
         }
+        this.logger.warn(`WebSocket closed with code ${code}, not reconnecting. Check the API token and its roles.`);
+        return true;
     }
-`;
+}
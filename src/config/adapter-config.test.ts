@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { compileNamePattern, validateConfig } from './adapter-config';
+
+describe('compileNamePattern', () => {
+    it('matches globs case-insensitively against the whole name', () => {
+        const pattern = compileNamePattern('plex*');
+
+        expect(pattern.test('Plex')).to.equal(true);
+        expect(pattern.test('plex-server')).to.equal(true);
+        expect(pattern.test('my-plex')).to.equal(false);
+        expect(compileNamePattern('vm?').test('vm1')).to.equal(true);
+        expect(compileNamePattern('vm?').test('vm10')).to.equal(false);
+    });
+
+    it('treats regular expression characters of globs literally', () => {
+        const pattern = compileNamePattern('backup.(old)');
+
+        expect(pattern.test('backup.(old)')).to.equal(true);
+        expect(pattern.test('backupX(old)')).to.equal(false);
+    });
+
+    it('compiles /.../flags as regular expression without stateful flags', () => {
+        const pattern = compileNamePattern('/^test-\\d+$/gi');
+
+        expect(pattern.flags).to.equal('i');
+        expect(pattern.test('TEST-1')).to.equal(true);
+        expect(pattern.test('TEST-1')).to.equal(true);
+        expect(pattern.test('test-a')).to.equal(false);
+    });
+
+    it('throws on invalid regular expressions', () => {
+        expect(() => compileNamePattern('/(/')).to.throw(SyntaxError);
+    });
+});
+
+describe('validateConfig resource filters', () => {
+    const connection = { baseUrl: 'https://tower.local', apiToken: 'token' };
+
+    it('splits patterns at commas and line breaks per resource type', () => {
+        const config = validateConfig({
+            ...connection,
+            resourceFilters: { docker: { include: 'plex*, sonarr\n radarr ,', exclude: '' }, vm: { exclude: 'test*' } },
+        });
+
+        expect(config?.resourceFilters.docker?.include.map(pattern => pattern.source)).to.deep.equal([
+            '^plex.*$',
+            '^sonarr$',
+            '^radarr$',
+        ]);
+        expect(config?.resourceFilters.docker?.exclude).to.deep.equal([]);
+        expect(config?.resourceFilters.vm?.exclude).to.have.length(1);
+    });
+
+    it('drops resource types without patterns and unknown types', () => {
+        const config = validateConfig({
+            ...connection,
+            resourceFilters: { share: { include: ' , ' }, pool: { include: 'cache' } },
+        });
+
+        expect(config?.resourceFilters).to.deep.equal({});
+    });
+
+    it('skips invalid regular expressions with an error', () => {
+        const logger = { error: sinon.stub() };
+        const config = validateConfig(
+            { ...connection, resourceFilters: { hardwareDisk: { exclude: '/[/, sdb' } } },
+            logger,
+        );
+
+        expect(config?.resourceFilters.hardwareDisk?.exclude.map(pattern => pattern.source)).to.deep.equal(['^sdb$']);
+        expect(logger.error.calledOnce).to.equal(true);
+        expect(logger.error.firstCall.args[0]).to.contain('/[/');
+    });
+});
@@ -1,22 +1,63 @@
 import type { DomainId } from '../shared/unraid-domains';
 import { allDomainIds, defaultEnabledDomains } from '../shared/unraid-domains';
 
+/** Shortest polling interval accepted for a single domain (seconds) */
+const MIN_DOMAIN_INTERVAL_SECONDS = 5;
+
+/** Object IDs at the adapter root that cannot be used for a server subtree */
+const RESERVED_SERVER_IDS: ReadonlySet<string> = new Set(['info']);
+
 /**
- * Adapter configuration settings from the admin interface
+ * Connection settings of one Unraid server
  */
-export interface AdapterConfig {
+export interface ServerConfig {
+    /** Object ID of the server subtree, empty for the single server whose objects live at the adapter root */
+    id: string;
+    /** Display name of the server */
+    name: string;
     /** Base URL of the Unraid server */
     baseUrl: string;
     /** API token for Unraid authentication */
     apiToken: string;
-    /** Interval between polling requests in seconds */
-    pollIntervalSeconds: number;
     /** Allow self-signed SSL certificates */
     allowSelfSigned: boolean;
+}
+
+/** Dynamic resource types that can be filtered by name */
+export const FILTERABLE_RESOURCE_TYPES = ['docker', 'vm', 'share', 'hardwareDisk'] as const;
+
+export type FilterableResourceType = (typeof FILTERABLE_RESOURCE_TYPES)[number];
+
+/**
+ * Name patterns deciding which resources of a type get objects
+ */
+export interface ResourceFilter {
+    /** A resource must match one of these patterns, all resources match if empty */
+    include: RegExp[];
+    /** Resources matching one of these patterns are skipped */
+    exclude: RegExp[];
+}
+
+/**
+ * Adapter configuration settings from the admin interface
+ */
+export interface AdapterConfig {
+    /** Unraid servers to connect to */
+    servers: ServerConfig[];
+    /** Interval between polling requests in seconds */
+    pollIntervalSeconds: number;
+    /** Polling intervals in seconds for single domains, overriding pollIntervalSeconds */
+    domainIntervals: Partial<Record<DomainId, number>>;
     /** List of enabled domain IDs for data collection */
     enabledDomains: DomainId[];
     /** Whether to use WebSocket subscriptions (experimental) */
     useSubscriptions?: boolean;
+    /** Mark all values as stale (quality flag) while the server is unreachable */
+    markStaleWhenOffline: boolean;
+    /** Key containers, VMs and shares by their Unraid ID instead of their name */
+    stableResourceIds: boolean;
+    /** Include/exclude name patterns per resource type */
+    resourceFilters: Partial<Record<FilterableResourceType, ResourceFilter>>;
 }
 
 /**
@@ -25,19 +66,22 @@ export interface AdapterConfig {
  * @param config - Raw configuration from ioBroker
  * @param logger - Logger object for error messages
  * @param logger.error - Function to log error messages
+ * @param decrypt - Function to decrypt the API tokens of the server list
  * @returns Validated configuration or null if invalid
  */
 export function validateConfig(
     config: Record<string, unknown>,
     logger?: { error: (msg: string) => void },
+    decrypt: (value: string) => string = value => value,
 ): AdapterConfig | null {
-    const baseUrl = ((config.baseUrl as string) ?? '').trim();
-    const apiToken = ((config.apiToken as string) ?? '').trim();
     const pollIntervalSecondsRaw = Number(config.pollIntervalSeconds ?? 60);
     const pollIntervalSeconds =
         Number.isFinite(pollIntervalSecondsRaw) && pollIntervalSecondsRaw > 0 ? pollIntervalSecondsRaw : 60;
-    const allowSelfSigned = Boolean(config.allowSelfSigned);
+    const domainIntervals = normalizeDomainIntervals(config.domainIntervals);
     const useSubscriptions = Boolean(config.useSubscriptions);
+    const markStaleWhenOffline = Boolean(config.markStaleWhenOffline);
+    const stableResourceIds = Boolean(config.stableResourceIds);
+    const resourceFilters = normalizeResourceFilters(config.resourceFilters, logger);
 
     const enabledDomainsRaw = Array.isArray(config.enabledDomains)
         ? (config.enabledDomains as string[])
@@ -55,22 +99,169 @@ export function validateConfig(
         enabledDomains.push(...(defaultEnabledDomains as DomainId[]));
     }
 
-    if (!baseUrl) {
-        logger?.error('Base URL is not configured.');
-        return null;
-    }
-
-    if (!apiToken) {
-        logger?.error('API token is not configured.');
+    const servers = normalizeServers(config, logger, decrypt);
+    if (!servers) {
         return null;
     }
 
     return {
-        baseUrl,
-        apiToken,
+        servers,
         pollIntervalSeconds,
-        allowSelfSigned,
+        domainIntervals,
         enabledDomains,
         useSubscriptions,
+        markStaleWhenOffline,
+        stableResourceIds,
+        resourceFilters,
     };
 }
+
+/**
+ * Keep only per-domain intervals of known domains with a usable value
+ *
+ * @param raw - Raw domainIntervals value from the configuration
+ * @returns Intervals in seconds per domain ID
+ */
+function normalizeDomainIntervals(raw: unknown): Partial<Record<DomainId, number>> {
+    const intervals: Partial<Record<DomainId, number>> = {};
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return intervals;
+    }
+
+    const knownIds = new Set<string>(allDomainIds);
+    for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+        const seconds = Number(value);
+        if (knownIds.has(id) && Number.isFinite(seconds) && seconds > 0) {
+            intervals[id as DomainId] = Math.max(MIN_DOMAIN_INTERVAL_SECONDS, seconds);
+        }
+    }
+
+    return intervals;
+}
+
+/**
+ * Compile the include/exclude patterns per resource type.
+ * Patterns are separated by commas or line breaks.
+ *
+ * @param raw - Raw resourceFilters value from the configuration
+ * @param logger - Logger object for error messages
+ * @param logger.error - Function to log error messages
+ * @returns Filters of the resource types with at least one valid pattern
+ */
+function normalizeResourceFilters(
+    raw: unknown,
+    logger?: { error: (msg: string) => void },
+): Partial<Record<FilterableResourceType, ResourceFilter>> {
+    const filters: Partial<Record<FilterableResourceType, ResourceFilter>> = {};
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return filters;
+    }
+
+    const compile = (type: string, value: unknown): RegExp[] => {
+        const patterns = typeof value === 'string' ? value.split(/[,\n]/) : [];
+        const compiled: RegExp[] = [];
+        for (const pattern of patterns.map(entry => entry.trim()).filter(Boolean)) {
+            try {
+                compiled.push(compileNamePattern(pattern));
+            } catch {
+                logger?.error(
+                    `Filter pattern ${pattern} for ${type} is not a valid regular expression and is ignored.`,
+                );
+            }
+        }
+        return compiled;
+    };
+
+    for (const type of FILTERABLE_RESOURCE_TYPES) {
+        const entry = (raw as Record<string, unknown>)[type] as Record<string, unknown> | undefined;
+        const filter = { include: compile(type, entry?.include), exclude: compile(type, entry?.exclude) };
+        if (filter.include.length || filter.exclude.length) {
+            filters[type] = filter;
+        }
+    }
+
+    return filters;
+}
+
+/**
+ * Compile a name pattern: `/.../flags` is a regular expression, anything else a case-insensitive glob
+ *
+ * @param pattern - Pattern from the configuration
+ * @returns Regular expression matching the names
+ */
+export function compileNamePattern(pattern: string): RegExp {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regex) {
+        // Stateful flags would make repeated tests alternate
+        return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    }
+
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+/**
+ * Build the server list. Without configured servers the connection settings
+ * describe a single server whose objects stay at the adapter root.
+ *
+ * @param config - Raw configuration from ioBroker
+ * @param logger - Logger object for error messages
+ * @param logger.error - Function to log error messages
+ * @param decrypt - Function to decrypt the API tokens of the server list
+ * @returns Valid servers or null if none is usable
+ */
+function normalizeServers(
+    config: Record<string, unknown>,
+    logger: { error: (msg: string) => void } | undefined,
+    decrypt: (value: string) => string,
+): ServerConfig[] | null {
+    const entries = Array.isArray(config.servers) ? (config.servers as Record<string, unknown>[]) : [];
+
+    if (!entries.length) {
+        const baseUrl = ((config.baseUrl as string) ?? '').trim();
+        const apiToken = ((config.apiToken as string) ?? '').trim();
+
+        if (!baseUrl) {
+            logger?.error('Base URL is not configured.');
+            return null;
+        }
+
+        if (!apiToken) {
+            logger?.error('API token is not configured.');
+            return null;
+        }
+
+        return [{ id: '', name: '', baseUrl, apiToken, allowSelfSigned: Boolean(config.allowSelfSigned) }];
+    }
+
+    // Invalid entries are skipped so the remaining servers still work
+    const servers: ServerConfig[] = [];
+    for (const [index, entry] of entries.entries()) {
+        const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+        // The ID is kept when the name changes, entries without one fall back to the name
+        const rawId = typeof entry?.id === 'string' && entry.id.trim() ? entry.id.trim() : name;
+        const id = rawId.replace(/[^A-Za-z0-9_-]/g, '_');
+        const baseUrl = typeof entry?.baseUrl === 'string' ? entry.baseUrl.trim() : '';
+        // The admin encrypts the tokens of the list, encryptedNative only covers top-level settings
+        const apiToken = typeof entry?.apiToken === 'string' && entry.apiToken ? decrypt(entry.apiToken).trim() : '';
+
+        if (!id || RESERVED_SERVER_IDS.has(id) || servers.some(server => server.id === id)) {
+            logger?.error(`Server ${index + 1} is skipped because its object ID is empty, reserved or not unique.`);
+            continue;
+        }
+
+        if (!baseUrl || !apiToken) {
+            logger?.error(`Server ${name} is skipped because its base URL or API token is not configured.`);
+            continue;
+        }
+
+        servers.push({ id, name, baseUrl, apiToken, allowSelfSigned: Boolean(entry.allowSelfSigned) });
+    }
+
+    if (!servers.length) {
+        logger?.error('None of the configured servers is usable.');
+        return null;
+    }
+
+    return servers;
+}
@@ -84,3 +84,106 @@ export const VM_RESET_MUTATION = `
         }
     }
 `;
+
+// Parity check mutations - all return JSON!
+export const PARITY_CHECK_START_MUTATION = `
+    mutation StartParityCheck($correct: Boolean!) {
+        parityCheck {
+            start(correct: $correct)
+        }
+    }
+`;
+
+export const PARITY_CHECK_PAUSE_MUTATION = `
+    mutation PauseParityCheck {
+        parityCheck {
+            pause
+        }
+    }
+`;
+
+export const PARITY_CHECK_RESUME_MUTATION = `
+    mutation ResumeParityCheck {
+        parityCheck {
+            resume
+        }
+    }
+`;
+
+export const PARITY_CHECK_CANCEL_MUTATION = `
+    mutation CancelParityCheck {
+        parityCheck {
+            cancel
+        }
+    }
+`;
+
+// Array mutations - return UnraidArray object
+export const ARRAY_SET_STATE_MUTATION = `
+    mutation SetArrayState($input: ArrayStateInput!) {
+        array {
+            setState(input: $input) {
+                id
+                state
+            }
+        }
+    }
+`;
+
+// Notification mutations
+export const NOTIFICATION_ARCHIVE_MUTATION = `
+    mutation ArchiveNotification($id: PrefixedID!) {
+        archiveNotification(id: $id) {
+            id
+        }
+    }
+`;
+
+export const NOTIFICATION_ARCHIVE_ALL_MUTATION = `
+    mutation ArchiveAllNotifications($importance: NotificationImportance) {
+        archiveAll(importance: $importance) {
+            unread {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_UNREAD_MUTATION = `
+    mutation UnreadNotification($id: PrefixedID!) {
+        unreadNotification(id: $id) {
+            id
+        }
+    }
+`;
+
+export const NOTIFICATION_DELETE_MUTATION = `
+    mutation DeleteNotification($id: PrefixedID!, $type: NotificationType!) {
+        deleteNotification(id: $id, type: $type) {
+            unread {
+                total
+            }
+            archive {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_DELETE_ARCHIVED_MUTATION = `
+    mutation DeleteArchivedNotifications {
+        deleteArchivedNotifications {
+            archive {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_CREATE_MUTATION = `
+    mutation CreateNotification($input: NotificationData!) {
+        createNotification(input: $input) {
+            id
+        }
+    }
+`;
@@ -0,0 +1,61 @@
+/**
+ * GraphQL query definitions used outside of the polling cycle
+ * Based on Unraid API schema from docs/schema.graphql
+ */
+
+// Docker container states - bypasses the API cache to observe state transitions
+export const DOCKER_CONTAINER_STATES_QUERY = `
+    query DockerContainerStates {
+        docker {
+            containers(skipCache: true) {
+                id
+                state
+            }
+        }
+    }
+`;
+
+// Object types with their fields, used to detect which parts of the domain selections the server supports
+export const SCHEMA_INTROSPECTION_QUERY = `
+    query SchemaIntrospection {
+        __schema {
+            queryType {
+                name
+            }
+            subscriptionType {
+                name
+            }
+            types {
+                name
+                fields {
+                    name
+                    type {
+                        name
+                        ofType {
+                            name
+                            ofType {
+                                name
+                                ofType {
+                                    name
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+`;
+
+// Roles and permissions of the API key, used to find out which domains and commands it may use
+export const API_KEY_PERMISSIONS_QUERY = `
+    query ApiKeyPermissions {
+        me {
+            roles
+            permissions {
+                resource
+                actions
+            }
+        }
+    }
+`;
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import type { DomainDefinition, RootSelection } from '../shared/unraid-domains';
+import { SchemaCapabilities, type IntrospectionSchema } from './schema-capabilities';
+
+/**
+ * Schema with a query type offering `array` and `info`
+ */
+const schema: IntrospectionSchema = {
+    queryType: { name: 'Query' },
+    subscriptionType: { name: 'Subscription' },
+    types: [
+        {
+            name: 'Query',
+            fields: [
+                { name: 'array', type: { name: null, ofType: { name: 'UnraidArray' } } },
+                { name: 'info', type: { name: 'Info' } },
+            ],
+        },
+        {
+            name: 'UnraidArray',
+            fields: [
+                { name: 'state', type: { name: 'String' } },
+                { name: 'disks', type: { name: null, ofType: { name: null, ofType: { name: 'ArrayDisk' } } } },
+            ],
+        },
+        { name: 'ArrayDisk', fields: [{ name: 'name', type: { name: 'String' } }] },
+        { name: 'Info', fields: [{ name: 'os', type: { name: 'InfoOs' } }] },
+        { name: 'InfoOs', fields: [{ name: 'platform', type: { name: 'String' } }] },
+        { name: 'Subscription', fields: [{ name: 'systemMetricsCpu', type: { name: 'CpuUtilization' } }] },
+        { name: 'String' },
+    ],
+};
+
+/**
+ * Domain definition with the given query selections
+ *
+ * @param selection - Query selections of the domain
+ */
+function definition(...selection: RootSelection[]): DomainDefinition {
+    return { id: 'array.status', selection, states: [] };
+}
+
+describe('SchemaCapabilities', () => {
+    const capabilities = new SchemaCapabilities(schema);
+
+    it('keeps a definition the schema fully supports unchanged', () => {
+        const supported = definition({ root: 'array', fields: [{ name: 'state' }] });
+
+        const result = capabilities.filterDefinition(supported);
+
+        expect(result.definition).to.equal(supported);
+        expect(result.removed).to.deep.equal([]);
+    });
+
+    it('disables a definition whose query root is missing', () => {
+        const result = capabilities.filterDefinition(definition({ root: 'ups', fields: [{ name: 'status' }] }));
+
+        expect(result.definition).to.equal(null);
+        expect(result.removed).to.deep.equal(['ups']);
+    });
+
+    it('drops a missing root and keeps the supported ones', () => {
+        const result = capabilities.filterDefinition(
+            definition({ root: 'array', fields: [{ name: 'state' }] }, { root: 'ups', fields: [{ name: 'status' }] }),
+        );
+
+        expect(result.definition?.selection).to.deep.equal([{ root: 'array', fields: [{ name: 'state' }] }]);
+        expect(result.removed).to.deep.equal(['ups']);
+    });
+
+    it('drops a missing nested field behind list and non-null wrappers', () => {
+        const result = capabilities.filterDefinition(
+            definition({
+                root: 'array',
+                fields: [{ name: 'state' }, { name: 'disks', selection: [{ name: 'name' }, { name: 'transport' }] }],
+            }),
+        );
+
+        expect(result.definition?.selection).to.deep.equal([
+            { root: 'array', fields: [{ name: 'state' }, { name: 'disks', selection: [{ name: 'name' }] }] },
+        ]);
+        expect(result.removed).to.deep.equal(['array.disks.transport']);
+    });
+
+    it('drops an object left without supported sub-fields', () => {
+        const result = capabilities.filterDefinition(
+            definition({
+                root: 'array',
+                fields: [{ name: 'state' }, { name: 'disks', selection: [{ name: 'transport' }] }],
+            }),
+        );
+
+        expect(result.definition?.selection).to.deep.equal([{ root: 'array', fields: [{ name: 'state' }] }]);
+        expect(result.removed).to.deep.equal(['array.disks.transport']);
+    });
+
+    it('disables a definition left without supported fields', () => {
+        const result = capabilities.filterDefinition(
+            definition({ root: 'info', fields: [{ name: 'os', selection: [{ name: 'kernel' }] }] }),
+        );
+
+        expect(result.definition).to.equal(null);
+        expect(result.removed).to.deep.equal(['info.os.kernel']);
+    });
+
+    it('only reports subscriptions the schema offers', () => {
+        expect(capabilities.hasSubscription('systemMetricsCpu')).to.equal(true);
+        expect(capabilities.hasSubscription('upsUpdates')).to.equal(false);
+    });
+});
@@ -0,0 +1,167 @@
+import type { DomainDefinition, FieldSpec, RootSelection } from '../shared/unraid-domains';
+
+/**
+ * Type reference of an introspected field, wrapped by NON_NULL and LIST types
+ */
+interface IntrospectionTypeRef {
+    /** Name of a named type, null for wrapping types */
+    name: string | null;
+    /** Wrapped type of NON_NULL and LIST types */
+    ofType?: IntrospectionTypeRef | null;
+}
+
+/**
+ * Result of the schema introspection query
+ */
+export interface IntrospectionSchema {
+    /** Root type of queries */
+    queryType: { name: string } | null;
+    /** Root type of subscriptions */
+    subscriptionType: { name: string } | null;
+    /** All types of the schema, fields are only set for object and interface types */
+    types: readonly {
+        name: string;
+        fields?: readonly { name: string; type: IntrospectionTypeRef }[] | null;
+    }[];
+}
+
+/**
+ * Result of checking a domain definition against the schema
+ */
+export interface FilteredDefinition {
+    /** Definition with the supported fields only, null if nothing of it is supported */
+    definition: DomainDefinition | null;
+    /** Paths of the removed fields, e.g. `array.disks.transport` */
+    removed: string[];
+}
+
+/**
+ * Fields supported by the connected Unraid API.
+ * Used to drop unknown fields from the domain selections, which would otherwise
+ * make the server reject the whole query.
+ */
+export class SchemaCapabilities {
+    /** Field types by type name and field name */
+    private readonly types = new Map<string, Map<string, string | null>>();
+    private readonly queryType: string | null;
+    private readonly subscriptionType: string | null;
+
+    /**
+     * Create the capabilities from an introspection result
+     *
+     * @param schema - Result of the schema introspection query
+     */
+    constructor(schema: IntrospectionSchema) {
+        this.queryType = schema.queryType?.name ?? null;
+        this.subscriptionType = schema.subscriptionType?.name ?? null;
+
+        for (const type of schema.types) {
+            if (!type.fields) {
+                continue;
+            }
+            this.types.set(type.name, new Map(type.fields.map(field => [field.name, this.unwrapType(field.type)])));
+        }
+    }
+
+    /**
+     * Check whether the server offers a subscription
+     *
+     * @param root - Subscription root field
+     */
+    hasSubscription(root: string): boolean {
+        return !!this.subscriptionType && !!this.types.get(this.subscriptionType)?.has(root);
+    }
+
+    /**
+     * Remove the fields unknown to the schema from a domain definition
+     *
+     * @param definition - Domain definition to check
+     * @returns Definition with the supported fields and the paths of the removed ones
+     */
+    filterDefinition(definition: DomainDefinition): FilteredDefinition {
+        const removed: string[] = [];
+        const rootFields = this.queryType ? this.types.get(this.queryType) : undefined;
+        if (!rootFields) {
+            return { definition, removed };
+        }
+
+        const selection: RootSelection[] = [];
+        for (const root of definition.selection) {
+            if (!rootFields.has(root.root)) {
+                removed.push(root.root);
+                continue;
+            }
+
+            const fields = this.filterFields(rootFields.get(root.root) ?? null, root.fields, root.root, removed);
+            if (root.fields.length && !fields.length) {
+                continue;
+            }
+            selection.push({ ...root, fields });
+        }
+
+        if (!removed.length) {
+            return { definition, removed };
+        }
+        return { definition: selection.length ? { ...definition, selection } : null, removed };
+    }
+
+    /**
+     * Recursively keep the fields the given type knows.
+     * Fields of types without field information (e.g. unions) are kept unchanged.
+     *
+     * @param typeName - Type the fields belong to
+     * @param fields - Field selections to check
+     * @param path - Path of the parent field for the removed list
+     * @param removed - Collects the paths of removed fields
+     */
+    private filterFields(
+        typeName: string | null,
+        fields: readonly FieldSpec[],
+        path: string,
+        removed: string[],
+    ): FieldSpec[] {
+        const typeFields = typeName ? this.types.get(typeName) : undefined;
+        if (!typeFields) {
+            return [...fields];
+        }
+
+        const supported: FieldSpec[] = [];
+        for (const field of fields) {
+            const fieldPath = `${path}.${field.name}`;
+            if (!typeFields.has(field.name)) {
+                removed.push(fieldPath);
+                continue;
+            }
+
+            if (!field.selection?.length) {
+                supported.push(field);
+                continue;
+            }
+
+            // An object field without any supported sub-field cannot be selected
+            const selection = this.filterFields(
+                typeFields.get(field.name) ?? null,
+                field.selection,
+                fieldPath,
+                removed,
+            );
+            if (selection.length) {
+                supported.push({ ...field, selection });
+            }
+        }
+        return supported;
+    }
+
+    /**
+     * Get the named type behind NON_NULL and LIST wrappers
+     *
+     * @param type - Type reference of a field
+     */
+    private unwrapType(type: IntrospectionTypeRef | null | undefined): string | null {
+        let current = type;
+        while (current && !current.name) {
+            current = current.ofType;
+        }
+        return current?.name ?? null;
+    }
+}
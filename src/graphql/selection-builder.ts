@@ -78,10 +78,12 @@ export class GraphQLSelectionBuilder {
      */
     private addFields(target: FieldNode, fields: readonly FieldSpec[]): void {
         for (const field of fields) {
-            let child = target.get(field.name);
+            // Arguments are part of the key, the response still uses the plain field name
+            const key = field.args ? `${field.name}(${field.args})` : field.name;
+            let child = target.get(key);
             if (!child) {
                 child = new Map();
-                target.set(field.name, child);
+                target.set(key, child);
             }
             if (field.selection?.length) {
                 this.addFields(child, field.selection);
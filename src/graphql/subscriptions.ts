@@ -0,0 +1,72 @@
+/**
+ * GraphQL subscription definitions for live updates
+ * Based on Unraid API schema from docs/schema.graphql
+ */
+
+// System metrics subscriptions - field selection mirrors the metrics.cpu domain
+export const CPU_SUBSCRIPTION = `
+    subscription CpuSubscription {
+        systemMetricsCpu {
+            percentTotal
+            cpus {
+                percentTotal
+                percentUser
+                percentSystem
+                percentNice
+                percentIdle
+                percentIrq
+            }
+        }
+    }
+`;
+
+// Field selection mirrors the metrics.memory domain
+export const MEMORY_SUBSCRIPTION = `
+    subscription MemorySubscription {
+        systemMetricsMemory {
+            percentTotal
+            total
+            used
+            free
+            available
+            active
+            buffcache
+            swapTotal
+            swapUsed
+            swapFree
+            percentSwapTotal
+        }
+    }
+`;
+
+// UPS subscription - emits a single device whenever its status changes
+export const UPS_SUBSCRIPTION = `
+    subscription UpsSubscription {
+        upsUpdates {
+            id
+            name
+            model
+            status
+            battery {
+                chargeLevel
+                estimatedRuntime
+                health
+            }
+            power {
+                inputVoltage
+                outputVoltage
+                loadPercentage
+            }
+        }
+    }
+`;
+
+// Notification subscription - only used as a trigger to refresh the notifications domain
+export const NOTIFICATION_SUBSCRIPTION = `
+    subscription NotificationSubscription {
+        notificationAdded {
+            id
+            importance
+        }
+    }
+`;
@@ -1,25 +1,19 @@
 import { Adapter, type AdapterOptions } from '@iobroker/adapter-core';
 
-import { UnraidApolloClient } from './apollo-client';
-import { StateManager } from './managers/state-manager';
-import { DynamicResourceManager } from './managers/dynamic-resource-manager';
-import { PollingManager } from './managers/polling-manager';
-import { ObjectManager } from './managers/object-manager';
-import { ControlManager } from './managers/control-manager';
+import { UnraidServer } from './unraid-server';
 import { validateConfig } from './config/adapter-config';
 import { domainDefinitionById, expandSelection, type DomainDefinition, type DomainId } from './shared/unraid-domains';
 
+/** Instance objects from io-package.json at the adapter root */
+const INSTANCE_OBJECT_IDS: ReadonlySet<string> = new Set(['info', 'info.connection']);
+
 /**
  * Main adapter class for connecting ioBroker to Unraid servers.
- * Manages GraphQL polling, WebSocket subscriptions, and state updates.
+ * Each configured server is handled by its own {@link UnraidServer}.
  */
 class UnraidAdapter extends Adapter {
-    private apolloClient?: UnraidApolloClient;
-    private stateManager?: StateManager;
-    private dynamicResourceManager?: DynamicResourceManager;
-    private pollingManager?: PollingManager;
-    private controlManager?: ControlManager;
-    private objectManager?: ObjectManager;
+    private servers: UnraidServer[] = [];
+    private readonly serverConnections = new Map<string, boolean>();
 
     private effectiveSelection: Set<DomainId> = new Set();
     private selectedDefinitions: DomainDefinition[] = [];
@@ -47,8 +41,11 @@ class UnraidAdapter extends Adapter {
      */
     private async onReady(): Promise<void> {
         try {
+            // Reachability is reported from the poll results
+            await this.setStateAsync('info.connection', false, true);
+
             // Validate configuration
-            const config = validateConfig(this.config, this.log);
+            const config = validateConfig(this.config, this.log, value => this.decrypt(value));
             if (!config) {
                 this.log.warn('Adapter is idle because the configuration is incomplete.');
                 return;
@@ -62,43 +59,28 @@ class UnraidAdapter extends Adapter {
                 return;
             }
 
-            // Initialize managers
-            this.stateManager = new StateManager(this);
-            this.objectManager = new ObjectManager(this, this.stateManager);
-            this.dynamicResourceManager = new DynamicResourceManager(this, this.stateManager);
-            this.dynamicResourceManager.setObjectManager(this.objectManager);
-
-            // Initialize Apollo Client
-            this.apolloClient = new UnraidApolloClient({
-                baseUrl: config.baseUrl,
-                apiToken: config.apiToken,
-                allowSelfSigned: config.allowSelfSigned,
-                logger: this.log,
-            });
-
-            // Initialize polling manager
-            this.pollingManager = new PollingManager(this, this.apolloClient, this.handlePolledData.bind(this));
-
-            // Initialize control manager
-            this.controlManager = new ControlManager(this, this.apolloClient);
-
-            // Initialize object manager and clean up unselected domains
-            await this.objectManager.initialize(this.selectedDefinitions);
-            await this.objectManager.cleanupUnselectedDomains(this.effectiveSelection);
-
-            // Initialize static states
-            await this.stateManager.initializeStaticStates(this.selectedDefinitions);
+            // Objects at the adapter root belong to the single server or to the server subtrees
+            const serverIds = new Set(config.servers.map(server => server.id));
+            if (!serverIds.has('')) {
+                await this.cleanupServerTrees(serverIds);
+            }
 
-            // Subscription support disabled for now (API issues)
-            // if (config.useSubscriptions) {
-            //     await this.initializeSubscriptions();
-            // }
+            this.servers = config.servers.map(
+                server =>
+                    new UnraidServer(this, server, config, connected => this.updateConnection(server.id, connected)),
+            );
 
             // Subscribe only to our own state changes
             this.subscribeStates(`${this.namespace}.*`);
 
-            // Start polling
-            this.pollingManager.start(config.pollIntervalSeconds * 1000, this.selectedDefinitions);
+            // A server failing to start must not keep the others from starting
+            for (const server of this.servers) {
+                try {
+                    await server.start(this.effectiveSelection, this.selectedDefinitions);
+                } catch (error) {
+                    this.log.error(`Failed to start server ${server.label}: ${this.describeError(error)}`);
+                }
+            }
         } catch (error) {
             this.log.error(`Failed to initialise adapter: ${this.describeError(error)}`);
         }
@@ -122,16 +104,50 @@ class UnraidAdapter extends Adapter {
             }
         }
         this.selectedDefinitions = definitions;
+        this.staticObjectIds = this.collectStaticObjectIdsTemp(definitions);
+    }
 
-        if (this.stateManager) {
-            this.staticObjectIds = this.stateManager.collectStaticObjectIds(definitions);
-        } else {
-            // Fallback for initialization phase
-            this.staticObjectIds = this.collectStaticObjectIdsTemp(definitions);
-        }
+    /**
+     * Report the instance as connected while every server is reachable
+     *
+     * @param serverId - Server whose reachability changed
+     * @param connected - Whether the server is reachable
+     */
+    private async updateConnection(serverId: string, connected: boolean): Promise<void> {
+        this.serverConnections.set(serverId, connected);
+        const allConnected =
+            this.serverConnections.size === this.servers.length && [...this.serverConnections.values()].every(Boolean);
+        await this.setStateAsync('info.connection', allConnected, true);
+    }
+
+    /**
+     * Remove objects at the adapter root that belong to no configured server,
+     * e.g. the single-server object tree or the subtree of a removed server
+     *
+     * @param serverIds - IDs of the configured servers
+     */
+    private async cleanupServerTrees(serverIds: ReadonlySet<string>): Promise<void> {
+        const objects = await this.getAdapterObjectsAsync();
+
+        for (const fullId of Object.keys(objects)) {
+            const relativeId = fullId.slice(this.namespace.length + 1);
+            const [rootId] = relativeId.split('.');
+            if (INSTANCE_OBJECT_IDS.has(relativeId) || serverIds.has(rootId)) {
+                continue;
+            }
+
+            // Nested objects are removed together with their root object, except below the instance channel
+            if (rootId !== relativeId && rootId !== 'info') {
+                continue;
+            }
 
-        // Reset dynamic tracking for deselected domains
-        this.dynamicResourceManager?.resetTracking(this.effectiveSelection);
+            try {
+                await this.delObjectAsync(relativeId, { recursive: true });
+                this.log.debug(`Removed object of no configured server: ${relativeId}`);
+            } catch (error) {
+                this.log.warn(`Failed to remove object ${relativeId}: ${this.describeError(error)}`);
+            }
+        }
     }
 
     /**
@@ -159,39 +175,13 @@ class UnraidAdapter extends Adapter {
         return ids;
     }
 
-    /**
-     * Handle data received from polling
-     *
-     * @param data - GraphQL query result data
-     */
-    private async handlePolledData(data: Record<string, unknown>): Promise<void> {
-        if (!this.stateManager || !this.dynamicResourceManager || !this.objectManager) {
-            this.log.error('Managers not initialized');
-            return;
-        }
-
-        // Start new poll cycle for object tracking
-        this.objectManager.beginPollCycle();
-
-        // Handle dynamic resources
-        await this.dynamicResourceManager.handleDynamicCpuCores(data, this.effectiveSelection);
-        await this.dynamicResourceManager.handleDynamicArrayDisks(data, this.effectiveSelection);
-        await this.dynamicResourceManager.handleDynamicDockerContainers(data, this.effectiveSelection);
-        await this.dynamicResourceManager.handleDynamicShares(data, this.effectiveSelection);
-        await this.dynamicResourceManager.handleDynamicVms(data, this.effectiveSelection);
-
-        // Apply static definitions
-        for (const definition of this.selectedDefinitions) {
-            await this.stateManager.applyDefinition(definition, data);
-        }
-    }
-
     private async onStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
-        // Delegate control operations to ControlManager
-        if (this.controlManager) {
-            await this.controlManager.handleStateChange(id, state);
+        // Delegate control operations to the server owning the state
+        const server = this.servers.find(candidate => candidate.ownsState(id));
+        if (server) {
+            await server.handleStateChange(id, state);
         } else {
-            this.log.warn(`Main: ControlManager not initialized, cannot handle state change for ${id}`);
+            this.log.debug(`Main: No server owns state ${id}`);
         }
     }
 
@@ -204,24 +194,17 @@ class UnraidAdapter extends Adapter {
 
     private onUnload(callback: () => void): void {
         try {
-            // Stop polling
-            this.pollingManager?.stop();
-
-            // Dispose Apollo client (fire and forget)
-            if (this.apolloClient) {
-                this.apolloClient.dispose().catch(error => {
-                    this.log.warn(`Failed to dispose Apollo client: ${this.describeError(error)}`);
-                });
-                this.apolloClient = undefined;
+            // Stop polling, subscriptions and clients of all servers
+            for (const server of this.servers) {
+                server.stop();
             }
+            this.servers = [];
+            this.serverConnections.clear();
 
-            // Clear managers
-            this.stateManager?.clear();
-            this.stateManager = undefined;
-            this.dynamicResourceManager = undefined;
-            this.pollingManager = undefined;
-            this.controlManager = undefined;
-            this.objectManager = undefined;
+            // Report the connection as lost (fire and forget)
+            this.setStateAsync('info.connection', false, true).catch(error => {
+                this.log.debug(`Failed to reset connection state: ${this.describeError(error)}`);
+            });
 
             this.log.debug('Adapter cleanup completed');
         } catch (error) {
@@ -0,0 +1,296 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { UnraidApolloClient } from '../apollo-client';
+import { ARRAY_SET_STATE_MUTATION, DOCKER_START_MUTATION, DOCKER_STOP_MUTATION } from '../graphql/mutations';
+import type { AdapterInterface } from '../types/adapter-types';
+import { ControlManager, getDesiredStateAction } from './control-manager';
+
+/**
+ * Adapter stub keeping written states in memory
+ *
+ * @param natives - Native data of the control objects by ID
+ */
+function createAdapter(natives: Record<string, Record<string, unknown>>): {
+    adapter: AdapterInterface;
+    states: Map<string, ioBroker.StateValue>;
+} {
+    const states = new Map<string, ioBroker.StateValue>();
+    const adapter = {
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        getObjectAsync: (id: string) => Promise.resolve(natives[id] ? { native: natives[id] } : null),
+        getStateAsync: (id: string) => Promise.resolve(states.has(id) ? { val: states.get(id) } : null),
+        setStateAsync: (id: string, state: ioBroker.StateValue | ioBroker.SettableState) => {
+            states.set(id, state !== null && typeof state === 'object' ? (state.val ?? null) : state);
+            return Promise.resolve();
+        },
+        setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+        clearTimeout: (timer: NodeJS.Timeout | undefined) => clearTimeout(timer),
+        delay: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+    };
+    return { adapter: adapter as unknown as AdapterInterface, states };
+}
+
+describe('ControlManager', () => {
+    let clock: sinon.SinonFakeTimers;
+    let manager: ControlManager | undefined;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+    });
+
+    afterEach(() => {
+        manager?.dispose();
+        manager = undefined;
+        clock.restore();
+    });
+
+    describe('array start/stop interlock', () => {
+        const natives = Object.fromEntries(
+            ['arm', 'start', 'stop'].map(action => [
+                `unraid.0.array.commands.${action}`,
+                { resourceType: 'array', resourceId: 'array', action },
+            ]),
+        );
+
+        /**
+         * Create a control manager for the array commands
+         */
+        function setup(): { states: Map<string, ioBroker.StateValue>; mutate: sinon.SinonStub } {
+            const { adapter, states } = createAdapter(natives);
+            const mutate = sinon.stub().resolves({ array: { setState: { state: 'STARTED' } } });
+            manager = new ControlManager(adapter, { mutate } as unknown as UnraidApolloClient, async () => {});
+            return { states, mutate };
+        }
+
+        /**
+         * Press an array command button
+         *
+         * @param action - Command to press
+         */
+        async function press(action: string): Promise<void> {
+            await manager?.handleStateChange(`unraid.0.array.commands.${action}`, {
+                val: true,
+                ack: false,
+            } as ioBroker.State);
+        }
+
+        it('rejects start without arming', async () => {
+            const { states, mutate } = setup();
+
+            await press('start');
+
+            expect(mutate.called).to.equal(false);
+            expect(states.get('unraid.0.array.commands.lastError')).to.match(/press array\.commands\.arm first/);
+        });
+
+        it('executes stop confirmed within the arm timeout and disarms', async () => {
+            const { states, mutate } = setup();
+
+            await press('arm');
+            expect(states.get('array.controlArmed')).to.equal(true);
+
+            await clock.tickAsync(29000);
+            await press('stop');
+
+            expect(mutate.calledOnceWith(ARRAY_SET_STATE_MUTATION, { input: { desiredState: 'STOP' } })).to.equal(true);
+            expect(states.get('array.controlArmed')).to.equal(false);
+            expect(states.get('unraid.0.array.commands.lastError')).to.equal(null);
+        });
+
+        it('disarms when the confirmation times out', async () => {
+            const { states, mutate } = setup();
+
+            await press('arm');
+            await clock.tickAsync(30001);
+            await press('start');
+
+            expect(mutate.called).to.equal(false);
+            expect(states.get('array.controlArmed')).to.equal(false);
+        });
+
+        it('needs a new arm for every confirmation', async () => {
+            const { mutate } = setup();
+
+            await press('arm');
+            await press('start');
+            await press('start');
+
+            expect(mutate.calledOnce).to.equal(true);
+        });
+    });
+
+    describe('Docker restart', () => {
+        const restartId = 'unraid.0.docker.containers.plex.commands.restart';
+
+        /**
+         * Create a control manager whose container reports the given states one query after another
+         *
+         * @param containerStates - Container states returned by the consecutive state queries
+         */
+        function setup(containerStates: string[]): {
+            states: Map<string, ioBroker.StateValue>;
+            query: sinon.SinonStub;
+            mutate: sinon.SinonStub;
+        } {
+            const { adapter, states } = createAdapter({
+                [restartId]: { resourceType: 'docker', resourceId: 'ctr:1', action: 'restart' },
+            });
+            const query = sinon.stub();
+            containerStates.forEach((state, index) =>
+                query.onCall(index).resolves({ docker: { containers: [{ id: 'ctr:1', state }] } }),
+            );
+            query.resolves({ docker: { containers: [{ id: 'ctr:1', state: containerStates.at(-1) }] } });
+            const mutate = sinon.stub().resolves({ docker: { start: { id: 'ctr:1' } } });
+            manager = new ControlManager(adapter, { query, mutate } as unknown as UnraidApolloClient, async () => {});
+            return { states, query, mutate };
+        }
+
+        /**
+         * Press the restart button and let the state checks run
+         */
+        async function restart(): Promise<void> {
+            const pending = manager?.handleStateChange(restartId, { val: true, ack: false } as ioBroker.State);
+            await clock.tickAsync(70000);
+            await pending;
+        }
+
+        it('starts a running container only after it has exited', async () => {
+            const { states, query, mutate } = setup(['RUNNING', 'RUNNING', 'EXITED', 'EXITED', 'RUNNING']);
+
+            await restart();
+
+            expect(mutate.firstCall.calledWith(DOCKER_STOP_MUTATION, { id: 'ctr:1' })).to.equal(true);
+            expect(mutate.secondCall.calledWith(DOCKER_START_MUTATION, { id: 'ctr:1' })).to.equal(true);
+            expect(mutate.secondCall.calledAfter(query.getCall(2))).to.equal(true);
+            expect(query.callCount).to.equal(5);
+            expect(states.get('unraid.0.docker.containers.plex.commands.lastError')).to.equal(null);
+        });
+
+        it('only starts a container that is not running', async () => {
+            const { mutate } = setup(['EXITED', 'RUNNING']);
+
+            await restart();
+
+            expect(mutate.calledOnceWith(DOCKER_START_MUTATION, { id: 'ctr:1' })).to.equal(true);
+        });
+
+        it('reports a container that does not exit in time', async () => {
+            const { states, mutate } = setup(['RUNNING']);
+
+            await restart();
+
+            expect(mutate.calledOnceWith(DOCKER_STOP_MUTATION, { id: 'ctr:1' })).to.equal(true);
+            expect(states.get('unraid.0.docker.containers.plex.commands.lastError')).to.match(
+                /did not reach state EXITED within 60s \(last state: RUNNING\)/,
+            );
+            expect(states.get('unraid.0.docker.containers.plex.commands.inProgress')).to.equal(false);
+        });
+    });
+
+    describe('command feedback', () => {
+        const startId = 'unraid.0.vms.list.win11.commands.start';
+        const channel = 'unraid.0.vms.list.win11.commands';
+
+        /**
+         * Create a control manager for a VM start button
+         *
+         * @param mutate - Mutation stub of the Apollo client
+         */
+        function setup(mutate: sinon.SinonStub): Map<string, ioBroker.StateValue> {
+            const { adapter, states } = createAdapter({
+                [startId]: { resourceType: 'vm', resourceId: 'vm:1', action: 'start' },
+            });
+            manager = new ControlManager(adapter, { mutate } as unknown as UnraidApolloClient, async () => {});
+            return states;
+        }
+
+        /**
+         * Press the VM start button
+         */
+        async function start(): Promise<void> {
+            await manager?.handleStateChange(startId, { val: true, ack: false } as ioBroker.State);
+        }
+
+        it('reports progress and the unwrapped result of a successful command', async () => {
+            let inProgressDuringCommand: ioBroker.StateValue | undefined;
+            const mutate = sinon.stub();
+            const states = setup(mutate);
+            mutate.callsFake(() => {
+                inProgressDuringCommand = states.get(`${channel}.inProgress`);
+                return Promise.resolve({ vm: { start: true } });
+            });
+
+            await start();
+
+            expect(inProgressDuringCommand).to.equal(true);
+            expect(states.get(`${channel}.inProgress`)).to.equal(false);
+            expect(states.get(`${channel}.lastResult`)).to.equal('true');
+            expect(states.get(`${channel}.lastError`)).to.equal(null);
+            expect(states.get(`${channel}.lastExecuted`)).to.equal(Date.now());
+            expect(states.get(startId)).to.equal(false);
+        });
+
+        it('reports a command rejected by the server as error', async () => {
+            const states = setup(sinon.stub().resolves({ vm: { start: false } }));
+
+            await start();
+
+            expect(states.get(`${channel}.lastResult`)).to.equal(null);
+            expect(states.get(`${channel}.lastError`)).to.equal('Action was rejected by the server');
+            expect(states.get(`${channel}.inProgress`)).to.equal(false);
+        });
+
+        it('reports the message of a failed command', async () => {
+            const states = setup(sinon.stub().rejects(new Error('VM is locked')));
+
+            await start();
+
+            expect(states.get(`${channel}.lastError`)).to.equal('VM is locked');
+            expect(states.get(`${channel}.inProgress`)).to.equal(false);
+        });
+    });
+});
+
+describe('getDesiredStateAction', () => {
+    it('starts or stops a container only when its running state differs', () => {
+        expect(getDesiredStateAction('docker', true, 'EXITED')).to.equal('start');
+        expect(getDesiredStateAction('docker', true, 'RUNNING')).to.equal(null);
+        expect(getDesiredStateAction('docker', false, 'RUNNING')).to.equal('stop');
+        expect(getDesiredStateAction('docker', false, 'EXITED')).to.equal(null);
+    });
+
+    it('accepts numbers and strings for true and false of containers', () => {
+        expect(getDesiredStateAction('docker', 1, 'EXITED')).to.equal('start');
+        expect(getDesiredStateAction('docker', 'true', 'EXITED')).to.equal('start');
+        expect(getDesiredStateAction('docker', 0, 'RUNNING')).to.equal('stop');
+        expect(getDesiredStateAction('docker', 'false', 'RUNNING')).to.equal('stop');
+    });
+
+    it('rejects ambiguous container values instead of starting the container', () => {
+        for (const value of ['0', '1', 'on', '', 2, null]) {
+            expect(() => getDesiredStateAction('docker', value, 'EXITED')).to.throw(/Invalid desired state/);
+        }
+    });
+
+    it('resumes a paused VM and starts a stopped one', () => {
+        expect(getDesiredStateAction('vm', 'running', 'PAUSED')).to.equal('resume');
+        expect(getDesiredStateAction('vm', 'running', 'SHUTOFF')).to.equal('start');
+        expect(getDesiredStateAction('vm', ' Running ', 'IDLE')).to.equal(null);
+    });
+
+    it('pauses and stops VMs', () => {
+        expect(getDesiredStateAction('vm', 'paused', 'RUNNING')).to.equal('pause');
+        expect(getDesiredStateAction('vm', 'shutoff', 'PAUSED')).to.equal('stop');
+        expect(getDesiredStateAction('vm', 'shutoff', 'CRASHED')).to.equal(null);
+    });
+
+    it('rejects pausing a VM that is not running', () => {
+        expect(() => getDesiredStateAction('vm', 'paused', 'SHUTOFF')).to.throw(/only be paused while it is running/);
+    });
+
+    it('rejects unknown desired VM states and resource types', () => {
+        expect(() => getDesiredStateAction('vm', 'hibernate', 'RUNNING')).to.throw(/Invalid desired VM state/);
+        expect(() => getDesiredStateAction('vm', true, 'RUNNING')).to.throw(/Invalid desired VM state/);
+        expect(() => getDesiredStateAction('share', true, null)).to.throw(/Unknown resource type/);
+    });
+});
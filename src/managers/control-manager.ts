@@ -10,22 +10,165 @@ import {
     VM_FORCE_STOP_MUTATION,
     VM_REBOOT_MUTATION,
     VM_RESET_MUTATION,
+    PARITY_CHECK_START_MUTATION,
+    PARITY_CHECK_PAUSE_MUTATION,
+    PARITY_CHECK_RESUME_MUTATION,
+    PARITY_CHECK_CANCEL_MUTATION,
+    ARRAY_SET_STATE_MUTATION,
+    NOTIFICATION_ARCHIVE_MUTATION,
+    NOTIFICATION_ARCHIVE_ALL_MUTATION,
+    NOTIFICATION_UNREAD_MUTATION,
+    NOTIFICATION_DELETE_MUTATION,
+    NOTIFICATION_DELETE_ARCHIVED_MUTATION,
+    NOTIFICATION_CREATE_MUTATION,
 } from '../graphql/mutations';
+import { DOCKER_CONTAINER_STATES_QUERY } from '../graphql/queries';
+import {
+    COMMAND_FEEDBACK_STATES,
+    DOCKER_DESIRED_STATES,
+    VM_DESIRED_STATES,
+    type DomainId,
+} from '../shared/unraid-domains';
+import { toStringOrNull, toVmDesiredState } from '../utils/data-transformers';
+
+/**
+ * Importance levels accepted by the Unraid notification mutations
+ */
+const NOTIFICATION_IMPORTANCES = ['INFO', 'WARNING', 'ALERT'] as const;
+
+/**
+ * Domain refreshed after an action, per resource type
+ */
+const REFRESH_DOMAINS: Readonly<Record<string, DomainId>> = {
+    docker: 'docker.containers',
+    vm: 'vms.list',
+    array: 'array.status',
+    parity: 'array.parity',
+    notification: 'notifications.overview',
+};
+
+/**
+ * Expected value of the resource `state` state after an action, per resource type and action.
+ * Actions without an entry are refreshed once.
+ */
+const TARGET_STATES: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+    docker: { start: 'RUNNING', stop: 'EXITED', restart: 'RUNNING' },
+    vm: {
+        start: 'RUNNING',
+        stop: 'SHUTOFF',
+        forceStop: 'SHUTOFF',
+        pause: 'PAUSED',
+        resume: 'RUNNING',
+        reboot: 'RUNNING',
+        reset: 'RUNNING',
+    },
+    array: { start: 'STARTED', stop: 'STOPPED' },
+};
+
+/**
+ * Parse the value of a container `running` switch.
+ * Scripts and bindings may write numbers or strings, anything ambiguous is rejected.
+ *
+ * @param value - Desired value
+ * @returns Whether the container should run
+ */
+function toDesiredRunning(value: ioBroker.StateValue): boolean {
+    switch (value) {
+        case true:
+        case 1:
+        case 'true':
+            return true;
+        case false:
+        case 0:
+        case 'false':
+            return false;
+        default:
+            throw new Error(`Invalid desired state: ${String(value)} (expected true or false)`);
+    }
+}
+
+/**
+ * Determine the action leading from the current to the desired state
+ *
+ * @param resourceType - Resource type (docker, vm)
+ * @param value - Desired value
+ * @param currentState - Current resource state reported by the API
+ * @returns Action to execute or null if the desired state is already reached
+ */
+export function getDesiredStateAction(
+    resourceType: string,
+    value: ioBroker.StateValue,
+    currentState: string | null,
+): string | null {
+    if (resourceType === 'docker') {
+        const running = currentState === 'RUNNING';
+        if (toDesiredRunning(value)) {
+            return running ? null : 'start';
+        }
+        return running ? 'stop' : null;
+    }
+
+    if (resourceType !== 'vm') {
+        throw new Error(`Unknown resource type: ${resourceType}`);
+    }
+
+    const desired = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    const current = toVmDesiredState(currentState);
+    if (desired === current) {
+        return null;
+    }
+
+    switch (desired) {
+        case 'running':
+            return current === 'paused' ? 'resume' : 'start';
+        case 'paused':
+            if (current !== 'running') {
+                throw new Error('A VM can only be paused while it is running');
+            }
+            return 'pause';
+        case 'shutoff':
+            return 'stop';
+        default:
+            throw new Error(`Invalid desired VM state: ${String(value)} (expected running, paused or shutoff)`);
+    }
+}
+
+/**
+ * Native data of a control state
+ */
+interface ControlTarget {
+    resourceType: string;
+    resourceId: string;
+    action: string;
+}
 
 /**
- * Manages control operations for Docker containers and VMs
+ * Manages control operations for Docker containers, VMs, the array, parity checks and notifications
  * Handles button state changes and executes GraphQL mutations
  */
 export class ControlManager {
+    /** Time the array start/stop commands stay armed (milliseconds) */
+    private readonly arrayArmTimeoutMs = 30000;
+    private arrayArmTimer?: ioBroker.Timeout;
+    /** Maximum time a container may take to reach the expected state during a restart (milliseconds) */
+    private readonly dockerRestartTimeoutMs = 60000;
+    /** Interval between container state checks during a restart (milliseconds) */
+    private readonly dockerStateCheckIntervalMs = 2000;
+    /** Delays of the follow-up refreshes after a successful action (milliseconds) */
+    private readonly refreshDelaysMs = [1000, 2000, 4000, 8000];
+    private readonly refreshTimers = new Set<ioBroker.Timeout>();
+
     /**
      * Create a new control manager
      *
      * @param adapter - Adapter interface for logging and state management
      * @param apolloClient - Apollo client for GraphQL mutations
+     * @param onRefreshRequested - Callback polling the given domains after an action
      */
     constructor(
         private readonly adapter: AdapterInterface,
         private readonly apolloClient: UnraidApolloClient,
+        private readonly onRefreshRequested: (domains: readonly DomainId[]) => Promise<void>,
     ) {}
 
     /**
@@ -35,53 +178,191 @@ export class ControlManager {
      * @param state - New state value
      */
     async handleStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
-        // Ignore acknowledged states, deletions, or false values
-        if (!state || state.ack || !state.val) {
+        // Ignore acknowledged states and deletions
+        if (!state || state.ack) {
+            return;
+        }
+
+        // Desired-state switches accept false values as well
+        if ([...DOCKER_DESIRED_STATES, ...VM_DESIRED_STATES].some(control => id.endsWith(`.${control.id}`))) {
+            await this.handleDesiredStateChange(id, state.val);
+            return;
+        }
+
+        // Ignore false values of buttons and empty text commands
+        if (!state.val) {
             return;
         }
 
         // Check if this is a control button
-        if (!id.includes('.commands.')) {
+        if (!id.includes('.commands.') || COMMAND_FEEDBACK_STATES.some(feedback => id.endsWith(`.${feedback.id}`))) {
             return;
         }
 
         this.adapter.log.info(`Processing control action for ${id}`);
 
+        const commandsChannel = id.slice(0, id.lastIndexOf('.'));
         try {
-            await this.executeControlAction(id);
-            await this.resetButton(id);
+            const target = await this.getControlTarget(id);
+            await this.runControlAction(commandsChannel, id, target, state.val);
         } catch (error) {
             this.adapter.log.error(`Failed to execute control action: ${this.describeError(error)}`);
-            await this.resetButton(id);
         }
+
+        await this.resetButton(id, state.val);
     }
 
     /**
-     * Execute the control action based on the button pressed
+     * Clear pending timers
+     */
+    dispose(): void {
+        if (this.arrayArmTimer) {
+            this.adapter.clearTimeout(this.arrayArmTimer);
+            this.arrayArmTimer = undefined;
+        }
+
+        for (const timer of this.refreshTimers) {
+            this.adapter.clearTimeout(timer);
+        }
+        this.refreshTimers.clear();
+    }
+
+    /**
+     * Execute a control action and report its outcome in the feedback states of the commands channel
+     *
+     * @param commandsChannel - Commands channel ID of the resource
+     * @param stateId - Control state ID the refresh after the action is derived from
+     * @param target - Native data of the control state
+     * @param value - Written value (payload of text commands)
+     * @returns Whether the action succeeded
+     */
+    private async runControlAction(
+        commandsChannel: string,
+        stateId: string,
+        target: ControlTarget,
+        value: ioBroker.StateValue,
+    ): Promise<boolean> {
+        await this.adapter.setStateAsync(`${commandsChannel}.inProgress`, true, true);
+
+        try {
+            const payload = this.extractMutationPayload(await this.executeControlAction(target, value));
+            if (payload === false) {
+                throw new Error('Action was rejected by the server');
+            }
+            await this.recordCommandOutcome(commandsChannel, payload ?? null, null);
+            this.scheduleRefresh(stateId, target);
+            return true;
+        } catch (error) {
+            this.adapter.log.error(`Failed to execute control action: ${this.describeError(error)}`);
+            await this.recordCommandOutcome(commandsChannel, null, this.describeError(error));
+            return false;
+        }
+    }
+
+    /**
+     * Handle writes to the desired-state switches of containers (`running`) and VMs (`desiredState`).
+     * Issues the mutation that leads from the current to the desired state, or nothing if it is already reached.
+     *
+     * @param id - Desired-state ID that changed
+     * @param value - Desired value
+     */
+    private async handleDesiredStateChange(id: string, value: ioBroker.StateValue): Promise<void> {
+        const obj = await this.adapter.getObjectAsync(id);
+        const target = obj?.native as Partial<ControlTarget> | undefined;
+        if (!target?.resourceType || !target.resourceId) {
+            return;
+        }
+
+        const resourcePrefix = id.slice(0, id.lastIndexOf('.'));
+        const currentState = toStringOrNull((await this.adapter.getStateAsync(`${resourcePrefix}.state`))?.val);
+        const commandsChannel = `${resourcePrefix}.commands`;
+
+        let action: string | null;
+        try {
+            action = getDesiredStateAction(target.resourceType, value, currentState);
+            // Container switches are acknowledged as boolean, whatever form of true/false was written
+            if (target.resourceType === 'docker') {
+                value = toDesiredRunning(value);
+            }
+        } catch (error) {
+            this.adapter.log.error(`Rejected desired state for ${id}: ${this.describeError(error)}`);
+            await this.recordCommandOutcome(commandsChannel, null, this.describeError(error));
+            await this.restoreDesiredState(id, target.resourceType, currentState);
+            return;
+        }
+
+        if (!action) {
+            this.adapter.log.debug(`${id} already in desired state ${String(value)}`);
+            await this.adapter.setStateAsync(id, value, true);
+            return;
+        }
+
+        this.adapter.log.info(`Processing desired state ${String(value)} for ${id}: ${action}`);
+        const succeeded = await this.runControlAction(
+            commandsChannel,
+            `${commandsChannel}.${action}`,
+            { resourceType: target.resourceType, resourceId: target.resourceId, action },
+            value,
+        );
+
+        if (succeeded) {
+            await this.adapter.setStateAsync(id, value, true);
+        } else {
+            await this.restoreDesiredState(id, target.resourceType, currentState);
+        }
+    }
+
+    /**
+     * Reset a desired-state switch to the value matching the current resource state
+     *
+     * @param id - Desired-state ID
+     * @param resourceType - Resource type (docker, vm)
+     * @param currentState - Current resource state reported by the API
+     */
+    private async restoreDesiredState(id: string, resourceType: string, currentState: string | null): Promise<void> {
+        let actual: ioBroker.StateValue = null;
+        if (currentState !== null) {
+            actual = resourceType === 'docker' ? currentState === 'RUNNING' : toVmDesiredState(currentState);
+        }
+        await this.adapter.setStateAsync(id, actual, true);
+    }
+
+    /**
+     * Read the native data of a control state
      *
      * @param stateId - The control button state ID
      */
-    private async executeControlAction(stateId: string): Promise<void> {
+    private async getControlTarget(stateId: string): Promise<ControlTarget> {
         const obj = await this.adapter.getObjectAsync(stateId);
         if (!obj || !obj.native) {
             throw new Error(`No object found for control state ${stateId}`);
         }
+        return obj.native as ControlTarget;
+    }
 
-        const { resourceType, resourceId, action } = obj.native as {
-            resourceType: string;
-            resourceId: string;
-            action: string;
-        };
+    /**
+     * Execute the control action based on the button pressed
+     *
+     * @param target - Native data of the control state
+     * @param value - Written value (payload of text commands)
+     * @returns Mutation response of the action
+     */
+    private async executeControlAction(target: ControlTarget, value: ioBroker.StateValue): Promise<unknown> {
+        const { resourceType, resourceId, action } = target;
 
         this.adapter.log.info(`Executing ${action} for ${resourceType} ${resourceId}`);
 
         switch (resourceType) {
             case 'docker':
-                await this.executeDockerAction(resourceId, action);
-                break;
+                return this.executeDockerAction(resourceId, action);
             case 'vm':
-                await this.executeVmAction(resourceId, action);
-                break;
+                return this.executeVmAction(resourceId, action);
+            case 'array':
+                return this.executeArrayAction(action);
+            case 'parity':
+                return this.executeParityAction(action);
+            case 'notification':
+                return this.executeNotificationAction(action, value);
             default:
                 throw new Error(`Unknown resource type: ${resourceType}`);
         }
@@ -91,79 +372,138 @@ export class ControlManager {
      * Execute Docker container control actions
      *
      * @param containerId - Docker container ID (PrefixedID format)
-     * @param action - Action to perform (start, stop)
+     * @param action - Action to perform (start, stop, restart)
      */
-    private async executeDockerAction(containerId: string, action: string): Promise<void> {
+    private async executeDockerAction(containerId: string, action: string): Promise<unknown> {
         this.adapter.log.info(`Executing Docker action: ${action} on container ${containerId}`);
 
         switch (action) {
             case 'start': {
                 const startResult = await this.apolloClient.mutate(DOCKER_START_MUTATION, { id: containerId });
                 this.adapter.log.debug(`Docker start mutation result: ${JSON.stringify(startResult)}`);
-                break;
+                return startResult;
             }
 
             case 'stop': {
                 const stopResult = await this.apolloClient.mutate(DOCKER_STOP_MUTATION, { id: containerId });
                 this.adapter.log.debug(`Docker stop mutation result: ${JSON.stringify(stopResult)}`);
-                break;
+                return stopResult;
             }
 
+            case 'restart':
+                return this.restartDockerContainer(containerId);
+
             default:
                 throw new Error(`Unknown Docker action: ${action}`);
         }
     }
 
+    /**
+     * Restart a Docker container: stop it, wait until it has exited, start it and wait until it runs.
+     * A container that is not running is only started.
+     *
+     * @param containerId - Docker container ID (PrefixedID format)
+     */
+    private async restartDockerContainer(containerId: string): Promise<unknown> {
+        if ((await this.getDockerContainerState(containerId)) === 'RUNNING') {
+            const stopResult = await this.apolloClient.mutate(DOCKER_STOP_MUTATION, { id: containerId });
+            this.adapter.log.debug(`Docker stop mutation result: ${JSON.stringify(stopResult)}`);
+            await this.waitForDockerContainerState(containerId, 'EXITED');
+        }
+
+        const startResult = await this.apolloClient.mutate(DOCKER_START_MUTATION, { id: containerId });
+        this.adapter.log.debug(`Docker start mutation result: ${JSON.stringify(startResult)}`);
+        await this.waitForDockerContainerState(containerId, 'RUNNING');
+
+        this.adapter.log.info(`Docker container ${containerId} restarted`);
+        return startResult;
+    }
+
+    /**
+     * Wait until a Docker container reports the expected state
+     *
+     * @param containerId - Docker container ID (PrefixedID format)
+     * @param expectedState - Container state to wait for (RUNNING, EXITED)
+     */
+    private async waitForDockerContainerState(containerId: string, expectedState: string): Promise<void> {
+        const deadline = Date.now() + this.dockerRestartTimeoutMs;
+        let state = await this.getDockerContainerState(containerId);
+
+        while (state !== expectedState) {
+            if (Date.now() >= deadline) {
+                throw new Error(
+                    `Docker container ${containerId} did not reach state ${expectedState} within ${this.dockerRestartTimeoutMs / 1000}s (last state: ${state ?? 'unknown'})`,
+                );
+            }
+            await this.adapter.delay(this.dockerStateCheckIntervalMs);
+            state = await this.getDockerContainerState(containerId);
+        }
+    }
+
+    /**
+     * Read the current state of a Docker container
+     *
+     * @param containerId - Docker container ID (PrefixedID format)
+     * @returns Container state or null if the container is unknown
+     */
+    private async getDockerContainerState(containerId: string): Promise<string | null> {
+        const result = await this.apolloClient.query<{ docker?: { containers?: { id: string; state: string }[] } }>(
+            DOCKER_CONTAINER_STATES_QUERY,
+        );
+        const container = result.docker?.containers?.find(entry => entry.id === containerId);
+        return container?.state ?? null;
+    }
+
     /**
      * Execute VM control actions
      *
      * @param vmId - Virtual machine ID (PrefixedID format)
      * @param action - Action to perform (start, stop, pause, resume, forceStop, reboot, reset)
      */
-    private async executeVmAction(vmId: string, action: string): Promise<void> {
+    private async executeVmAction(vmId: string, action: string): Promise<unknown> {
         this.adapter.log.info(`Executing VM action: ${action} on VM ${vmId}`);
 
         switch (action) {
             case 'start': {
                 const startResult = await this.apolloClient.mutate(VM_START_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM start mutation result: ${JSON.stringify(startResult)}`);
-                break;
+                return startResult;
             }
 
             case 'stop': {
                 const stopResult = await this.apolloClient.mutate(VM_STOP_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM stop mutation result: ${JSON.stringify(stopResult)}`);
-                break;
+                return stopResult;
             }
 
             case 'pause': {
                 const pauseResult = await this.apolloClient.mutate(VM_PAUSE_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM pause mutation result: ${JSON.stringify(pauseResult)}`);
-                break;
+                return pauseResult;
             }
 
             case 'resume': {
                 const resumeResult = await this.apolloClient.mutate(VM_RESUME_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM resume mutation result: ${JSON.stringify(resumeResult)}`);
-                break;
+                return resumeResult;
             }
 
             case 'forceStop': {
                 const forceStopResult = await this.apolloClient.mutate(VM_FORCE_STOP_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM forceStop mutation result: ${JSON.stringify(forceStopResult)}`);
-                break;
+                return forceStopResult;
             }
 
             case 'reboot': {
                 const rebootResult = await this.apolloClient.mutate(VM_REBOOT_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM reboot mutation result: ${JSON.stringify(rebootResult)}`);
-                break;
+                return rebootResult;
             }
 
             case 'reset': {
                 const resetResult = await this.apolloClient.mutate(VM_RESET_MUTATION, { id: vmId });
                 this.adapter.log.debug(`VM reset mutation result: ${JSON.stringify(resetResult)}`);
-                break;
+                return resetResult;
             }
 
             default:
@@ -172,12 +512,334 @@ export class ControlManager {
     }
 
     /**
-     * Reset button state back to false
+     * Execute array control actions.
+     * Start and stop require the array control to be armed first and disarm it again.
+     *
+     * @param action - Action to perform (arm, start, stop)
+     */
+    private async executeArrayAction(action: string): Promise<unknown> {
+        if (action === 'arm') {
+            await this.armArrayControl();
+            return true;
+        }
+
+        if (action !== 'start' && action !== 'stop') {
+            throw new Error(`Unknown array action: ${action}`);
+        }
+
+        if (!this.arrayArmTimer) {
+            throw new Error(
+                `Array ${action} rejected: press array.commands.arm first and confirm within ${this.arrayArmTimeoutMs / 1000}s`,
+            );
+        }
+        await this.disarmArrayControl();
+
+        this.adapter.log.info(`Executing array action: ${action}`);
+        const desiredState = action === 'start' ? 'START' : 'STOP';
+        const result = await this.apolloClient.mutate(ARRAY_SET_STATE_MUTATION, { input: { desiredState } });
+        this.adapter.log.debug(`Array ${action} mutation result: ${JSON.stringify(result)}`);
+        return result;
+    }
+
+    /**
+     * Arm array start/stop for a limited time
+     */
+    private async armArrayControl(): Promise<void> {
+        if (this.arrayArmTimer) {
+            this.adapter.clearTimeout(this.arrayArmTimer);
+        }
+
+        this.arrayArmTimer = this.adapter.setTimeout(() => {
+            this.arrayArmTimer = undefined;
+            this.adapter.log.info('Array start/stop disarmed (confirmation timed out)');
+            void this.adapter.setStateAsync('array.controlArmed', false, true);
+        }, this.arrayArmTimeoutMs);
+
+        this.adapter.log.warn(
+            `Array start/stop armed for ${this.arrayArmTimeoutMs / 1000}s, press array.commands.start or array.commands.stop to confirm`,
+        );
+        await this.adapter.setStateAsync('array.controlArmed', true, true);
+    }
+
+    /**
+     * Disarm array start/stop
+     */
+    private async disarmArrayControl(): Promise<void> {
+        if (this.arrayArmTimer) {
+            this.adapter.clearTimeout(this.arrayArmTimer);
+            this.arrayArmTimer = undefined;
+        }
+        await this.adapter.setStateAsync('array.controlArmed', false, true);
+    }
+
+    /**
+     * Execute parity check control actions
+     *
+     * @param action - Action to perform (start, startCorrecting, pause, resume, cancel)
+     */
+    private async executeParityAction(action: string): Promise<unknown> {
+        this.adapter.log.info(`Executing parity check action: ${action}`);
+
+        switch (action) {
+            case 'start': {
+                const startResult = await this.apolloClient.mutate(PARITY_CHECK_START_MUTATION, { correct: false });
+                this.adapter.log.debug(`Parity check start mutation result: ${JSON.stringify(startResult)}`);
+                return startResult;
+            }
+
+            case 'startCorrecting': {
+                const startResult = await this.apolloClient.mutate(PARITY_CHECK_START_MUTATION, { correct: true });
+                this.adapter.log.debug(`Parity check correcting start mutation result: ${JSON.stringify(startResult)}`);
+                return startResult;
+            }
+
+            case 'pause': {
+                const pauseResult = await this.apolloClient.mutate(PARITY_CHECK_PAUSE_MUTATION);
+                this.adapter.log.debug(`Parity check pause mutation result: ${JSON.stringify(pauseResult)}`);
+                return pauseResult;
+            }
+
+            case 'resume': {
+                const resumeResult = await this.apolloClient.mutate(PARITY_CHECK_RESUME_MUTATION);
+                this.adapter.log.debug(`Parity check resume mutation result: ${JSON.stringify(resumeResult)}`);
+                return resumeResult;
+            }
+
+            case 'cancel': {
+                const cancelResult = await this.apolloClient.mutate(PARITY_CHECK_CANCEL_MUTATION);
+                this.adapter.log.debug(`Parity check cancel mutation result: ${JSON.stringify(cancelResult)}`);
+                return cancelResult;
+            }
+
+            default:
+                throw new Error(`Unknown parity check action: ${action}`);
+        }
+    }
+
+    /**
+     * Execute notification control actions
+     *
+     * @param action - Action to perform (archiveAll[Info|Warning|Alert], deleteArchived, archive, unread, delete, create)
+     * @param value - Notification ID or JSON payload for text commands
+     */
+    private async executeNotificationAction(action: string, value: ioBroker.StateValue): Promise<unknown> {
+        this.adapter.log.info(`Executing notification action: ${action}`);
+
+        switch (action) {
+            case 'archiveAll':
+            case 'archiveAllInfo':
+            case 'archiveAllWarning':
+            case 'archiveAllAlert': {
+                const importance = action === 'archiveAll' ? null : action.slice('archiveAll'.length).toUpperCase();
+                const archiveAllResult = await this.apolloClient.mutate(NOTIFICATION_ARCHIVE_ALL_MUTATION, {
+                    importance,
+                });
+                this.adapter.log.debug(`Notification archiveAll mutation result: ${JSON.stringify(archiveAllResult)}`);
+                return archiveAllResult;
+            }
+
+            case 'deleteArchived': {
+                const deleteArchivedResult = await this.apolloClient.mutate(NOTIFICATION_DELETE_ARCHIVED_MUTATION);
+                this.adapter.log.debug(
+                    `Notification deleteArchived mutation result: ${JSON.stringify(deleteArchivedResult)}`,
+                );
+                return deleteArchivedResult;
+            }
+
+            case 'archive': {
+                const archiveResult = await this.apolloClient.mutate(NOTIFICATION_ARCHIVE_MUTATION, {
+                    id: this.requireText(value, 'notification ID'),
+                });
+                this.adapter.log.debug(`Notification archive mutation result: ${JSON.stringify(archiveResult)}`);
+                return archiveResult;
+            }
+
+            case 'unread': {
+                const unreadResult = await this.apolloClient.mutate(NOTIFICATION_UNREAD_MUTATION, {
+                    id: this.requireText(value, 'notification ID'),
+                });
+                this.adapter.log.debug(`Notification unread mutation result: ${JSON.stringify(unreadResult)}`);
+                return unreadResult;
+            }
+
+            case 'delete': {
+                const text = this.requireText(value, 'notification ID');
+                let variables: { id: string; type: string } = { id: text, type: 'UNREAD' };
+                if (text.startsWith('{')) {
+                    const payload = this.parseJsonObject(text);
+                    variables = {
+                        id: this.requireText(payload.id, 'notification ID'),
+                        type: payload.type === 'ARCHIVE' ? 'ARCHIVE' : 'UNREAD',
+                    };
+                }
+                const deleteResult = await this.apolloClient.mutate(NOTIFICATION_DELETE_MUTATION, variables);
+                this.adapter.log.debug(`Notification delete mutation result: ${JSON.stringify(deleteResult)}`);
+                return deleteResult;
+            }
+
+            case 'create': {
+                const payload = this.parseJsonObject(this.requireText(value, 'notification JSON'));
+                const importance = typeof payload.importance === 'string' ? payload.importance.toUpperCase() : 'INFO';
+                if (!NOTIFICATION_IMPORTANCES.includes(importance as (typeof NOTIFICATION_IMPORTANCES)[number])) {
+                    throw new Error(`Invalid notification importance: ${importance}`);
+                }
+                const title = this.requireText(payload.title, 'notification title');
+                const input = {
+                    title,
+                    subject: typeof payload.subject === 'string' ? payload.subject : title,
+                    description: typeof payload.description === 'string' ? payload.description : '',
+                    importance,
+                    link: typeof payload.link === 'string' && payload.link ? payload.link : undefined,
+                };
+                const createResult = await this.apolloClient.mutate(NOTIFICATION_CREATE_MUTATION, { input });
+                this.adapter.log.debug(`Notification create mutation result: ${JSON.stringify(createResult)}`);
+                return createResult;
+            }
+
+            default:
+                throw new Error(`Unknown notification action: ${action}`);
+        }
+    }
+
+    /**
+     * Ensure a command value is a non-empty string
+     *
+     * @param value - Value to check
+     * @param description - Description of the expected value for the error message
+     * @returns Trimmed string value
+     */
+    private requireText(value: unknown, description: string): string {
+        const text = typeof value === 'string' ? value.trim() : '';
+        if (!text) {
+            throw new Error(`Missing ${description}`);
+        }
+        return text;
+    }
+
+    /**
+     * Parse a JSON object from a command value
+     *
+     * @param text - JSON text
+     * @returns Parsed object
+     */
+    private parseJsonObject(text: string): Record<string, unknown> {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Invalid JSON: ${this.describeError(error)}`);
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('Expected a JSON object');
+        }
+        return parsed as Record<string, unknown>;
+    }
+
+    /**
+     * Schedule a refresh of the domain affected by an action.
+     * Refreshes repeat with growing delays until the resource reports its target state.
+     *
+     * @param stateId - The control button state ID
+     * @param target - Native data of the control state
+     * @param attempt - Index of the refresh attempt
+     */
+    private scheduleRefresh(stateId: string, target: ControlTarget, attempt = 0): void {
+        const domain = REFRESH_DOMAINS[target.resourceType];
+        if (!domain || target.action === 'arm' || attempt >= this.refreshDelaysMs.length) {
+            return;
+        }
+
+        const timer = this.adapter.setTimeout(() => {
+            if (timer) {
+                this.refreshTimers.delete(timer);
+            }
+            void this.refreshAfterAction(stateId, target, domain, attempt);
+        }, this.refreshDelaysMs[attempt]);
+
+        if (timer) {
+            this.refreshTimers.add(timer);
+        }
+    }
+
+    /**
+     * Refresh a domain and schedule the next refresh while the target state is not reached
+     *
+     * @param stateId - The control button state ID
+     * @param target - Native data of the control state
+     * @param domain - Domain to refresh
+     * @param attempt - Index of the refresh attempt
+     */
+    private async refreshAfterAction(
+        stateId: string,
+        target: ControlTarget,
+        domain: DomainId,
+        attempt: number,
+    ): Promise<void> {
+        const expectedState = TARGET_STATES[target.resourceType]?.[target.action];
+
+        try {
+            await this.onRefreshRequested([domain]);
+            if (!expectedState) {
+                return;
+            }
+
+            const resourceStateId = `${stateId.slice(0, stateId.lastIndexOf('.commands.'))}.state`;
+            const current = await this.adapter.getStateAsync(resourceStateId);
+            if (current?.val === expectedState) {
+                this.adapter.log.debug(`${resourceStateId} reached ${expectedState} after ${attempt + 1} refresh(es)`);
+                return;
+            }
+        } catch (error) {
+            this.adapter.log.warn(`Refresh after ${target.action} failed: ${this.describeError(error)}`);
+        }
+
+        this.scheduleRefresh(stateId, target, attempt + 1);
+    }
+
+    /**
+     * Unwrap the payload of a mutation response, e.g. `{ vm: { start: true } }` becomes `true`
+     *
+     * @param result - Mutation response data
+     * @returns Innermost value below single-field wrapper objects
+     */
+    private extractMutationPayload(result: unknown): unknown {
+        let payload = result;
+        while (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+            const values = Object.values(payload as Record<string, unknown>);
+            if (values.length !== 1) {
+                break;
+            }
+            payload = values[0];
+        }
+        return payload;
+    }
+
+    /**
+     * Write the outcome of a command to the feedback states of its commands channel
+     *
+     * @param commandsChannel - Commands channel ID
+     * @param result - Mutation payload on success
+     * @param error - Error message on failure
+     */
+    private async recordCommandOutcome(commandsChannel: string, result: unknown, error: string | null): Promise<void> {
+        await this.adapter.setStateAsync(
+            `${commandsChannel}.lastResult`,
+            result === null ? null : JSON.stringify(result),
+            true,
+        );
+        await this.adapter.setStateAsync(`${commandsChannel}.lastError`, error, true);
+        await this.adapter.setStateAsync(`${commandsChannel}.lastExecuted`, Date.now(), true);
+        await this.adapter.setStateAsync(`${commandsChannel}.inProgress`, false, true);
+    }
+
+    /**
+     * Reset button state back to false, text commands back to an empty string
      *
      * @param stateId - Button state ID to reset
+     * @param value - Value that triggered the command
      */
-    private async resetButton(stateId: string): Promise<void> {
-        await this.adapter.setStateAsync(stateId, { val: false, ack: true });
+    private async resetButton(stateId: string, value: ioBroker.StateValue): Promise<void> {
+        await this.adapter.setStateAsync(stateId, { val: typeof value === 'string' ? '' : false, ack: true });
     }
 
     /**
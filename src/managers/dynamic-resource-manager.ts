@@ -10,13 +10,30 @@ import {
     toBooleanOrNull,
     bigIntToNumber,
     sanitizeResourceName,
+    formatContainerPorts,
+    extractContainerIpAddresses,
+    extractNetworkIpam,
+    extractNetworkContainerNames,
+    extractContainerUpdateStatuses,
+    toVmDesiredState,
 } from '../utils/data-transformers';
-import { DOCKER_CONTROL_STATES, VM_CONTROL_STATES } from '../shared/unraid-domains';
+import {
+    ARRAY_CONTROL_STATES,
+    COMMAND_FEEDBACK_STATES,
+    DOCKER_DESIRED_STATES,
+    VM_DESIRED_STATES,
+    DOCKER_CONTROL_STATES,
+    NOTIFICATION_CONTROL_STATES,
+    PARITY_CONTROL_STATES,
+    VM_CONTROL_STATES,
+} from '../shared/unraid-domains';
+import type { StateMapping } from '../shared/unraid-domains';
+import type { FilterableResourceType, ResourceFilter } from '../config/adapter-config';
 import stateTranslations from '../translations/state-names.json';
 
 /**
  * Manages dynamic resource detection and state creation
- * for CPU cores, array disks, Docker containers, shares, and VMs
+ * for CPU cores, array disks, physical disks, Docker containers and networks, shares, VMs, and UPS devices
  */
 export class DynamicResourceManager {
     // Dynamic CPU core tracking
@@ -32,6 +49,8 @@ export class DynamicResourceManager {
     // Dynamic docker container tracking
     private dockerContainersDetected = false;
     private containerNames: Set<string> = new Set();
+    private containerIds: Map<string, string | null> = new Map();
+    private containerKeys: Map<string, string> = new Map();
 
     // Dynamic shares tracking
     private sharesDetected = false;
@@ -41,7 +60,22 @@ export class DynamicResourceManager {
     private vmsDetected = false;
     private vmUuids: Set<string> = new Set();
 
+    // Dynamic Docker network tracking
+    private dockerNetworksDetected = false;
+    private networkNames: Set<string> = new Set();
+
+    // Dynamic physical disk tracking
+    private hardwareDisksDetected = false;
+    private hardwareDiskKeys: Set<string> = new Set();
+
+    // Dynamic UPS device tracking
+    private upsDevicesDetected = false;
+    private upsNames: Set<string> = new Set();
+
     private objectManager?: ObjectManager;
+    private deniedCommands: ReadonlySet<string> = new Set();
+    private stableResourceIds = false;
+    private resourceFilters: Partial<Record<FilterableResourceType, ResourceFilter>> = {};
 
     /**
      * Create a new dynamic resource manager
@@ -63,6 +97,47 @@ export class DynamicResourceManager {
         this.objectManager = objectManager;
     }
 
+    /**
+     * Set the resource types whose commands the API key may not execute.
+     * Their buttons are not created or removed, desired states become read-only.
+     * A changed set rebuilds the container and VM objects with the next data.
+     *
+     * @param resourceTypes - Denied resource types (docker, vm, array, parity)
+     */
+    setDeniedCommands(resourceTypes: Iterable<string>): void {
+        const deniedCommands = new Set(resourceTypes);
+        const changed =
+            deniedCommands.size !== this.deniedCommands.size ||
+            [...deniedCommands].some(type => !this.deniedCommands.has(type));
+        this.deniedCommands = deniedCommands;
+
+        if (changed) {
+            this.dockerContainersDetected = false;
+            this.vmsDetected = false;
+        }
+    }
+
+    /**
+     * Key containers, VMs and shares by their Unraid ID instead of their name.
+     * Objects stored under the key of the other mode are moved on detection,
+     * so are the objects of a container Unraid recreated with a new ID.
+     *
+     * @param enabled - Use Unraid IDs as object keys
+     */
+    setStableResourceIds(enabled: boolean): void {
+        this.stableResourceIds = enabled;
+    }
+
+    /**
+     * Set the include/exclude name patterns per resource type.
+     * Excluded resources get no objects and their existing objects are removed.
+     *
+     * @param filters - Compiled filters per resource type
+     */
+    setResourceFilters(filters: Partial<Record<FilterableResourceType, ResourceFilter>>): void {
+        this.resourceFilters = filters;
+    }
+
     /**
      * Reset tracking for deselected domains
      *
@@ -88,6 +163,8 @@ export class DynamicResourceManager {
         if (!selectedDomains.has('docker.containers')) {
             this.dockerContainersDetected = false;
             this.containerNames.clear();
+            this.containerIds.clear();
+            this.containerKeys.clear();
         }
 
         if (!selectedDomains.has('shares.list')) {
@@ -99,6 +176,21 @@ export class DynamicResourceManager {
             this.vmsDetected = false;
             this.vmUuids.clear();
         }
+
+        if (!selectedDomains.has('docker.networks')) {
+            this.dockerNetworksDetected = false;
+            this.networkNames.clear();
+        }
+
+        if (!selectedDomains.has('hardware.disks')) {
+            this.hardwareDisksDetected = false;
+            this.hardwareDiskKeys.clear();
+        }
+
+        if (!selectedDomains.has('ups.devices')) {
+            this.upsDevicesDetected = false;
+            this.upsNames.clear();
+        }
     }
 
     /**
@@ -201,14 +293,6 @@ export class DynamicResourceManager {
      * @param selectedDomains - Set of selected domain IDs
      */
     async handleDynamicArrayDisks(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
-        const hasDisks = selectedDomains.has('array.disks');
-        const hasParities = selectedDomains.has('array.parities');
-        const hasCaches = selectedDomains.has('array.caches');
-
-        if (!hasDisks && !hasParities && !hasCaches) {
-            return;
-        }
-
         const array = data.array as {
             disks?: unknown[];
             parities?: unknown[];
@@ -218,9 +302,18 @@ export class DynamicResourceManager {
             return;
         }
 
-        const disks = hasDisks && Array.isArray(array.disks) ? array.disks : [];
-        const parities = hasParities && Array.isArray(array.parities) ? array.parities : [];
-        const caches = hasCaches && Array.isArray(array.caches) ? array.caches : [];
+        // Lists missing from the result (other polling interval or failed field) keep their states
+        const hasDisks = selectedDomains.has('array.disks') && Array.isArray(array.disks);
+        const hasParities = selectedDomains.has('array.parities') && Array.isArray(array.parities);
+        const hasCaches = selectedDomains.has('array.caches') && Array.isArray(array.caches);
+
+        if (!hasDisks && !hasParities && !hasCaches) {
+            return;
+        }
+
+        const disks = (hasDisks && array.disks) || [];
+        const parities = (hasParities && array.parities) || [];
+        const caches = (hasCaches && array.caches) || [];
 
         const diskCount = hasDisks ? disks.length : this.diskCount;
         const parityCount = hasParities ? parities.length : this.parityCount;
@@ -289,7 +382,7 @@ export class DynamicResourceManager {
         }
 
         // Sync with ObjectManager
-        if (this.objectManager) {
+        if (this.objectManager && hasDisks) {
             const diskMap = new Map<string, any>();
             for (const disk of disks) {
                 const d = disk as Record<string, unknown>;
@@ -316,8 +409,14 @@ export class DynamicResourceManager {
             return;
         }
 
-        const containers = Array.isArray(docker.containers) ? docker.containers : [];
+        const trackUpdates = selectedDomains.has('docker.updatesAvailable');
+
+        const allContainers = Array.isArray(docker.containers) ? docker.containers : [];
+        const containers = allContainers.filter(container =>
+            this.isResourceIncluded('docker', this.getContainerName(container as Record<string, unknown>)),
+        );
         const containerNames = new Set<string>();
+        const containerIds = new Map<string, string | null>();
 
         for (const container of containers) {
             const c = container as Record<string, unknown>;
@@ -325,20 +424,35 @@ export class DynamicResourceManager {
             if (names && Array.isArray(names) && names.length > 0) {
                 const name = names[0].replace(/^\//, '');
                 containerNames.add(name);
+                containerIds.set(name, toStringOrNull(c.id));
             }
         }
 
+        // Unraid recreates containers on image updates and template edits, so the objects
+        // are rebuilt when a container keeps its name but gets a new ID
         const needsUpdate =
             !this.dockerContainersDetected ||
             containerNames.size !== this.containerNames.size ||
-            ![...containerNames].every(name => this.containerNames.has(name));
+            ![...containerNames].every(name => this.containerNames.has(name)) ||
+            [...containerIds].some(([name, id]) => this.containerIds.get(name) !== id);
 
         if (needsUpdate) {
+            const previousKeys = this.containerKeys;
             this.containerNames = containerNames;
+            this.containerIds = containerIds;
+            this.containerKeys = new Map();
             this.dockerContainersDetected = true;
 
             this.adapter.log.info(`Detected ${containerNames.size} Docker containers`);
 
+            for (const container of allContainers) {
+                const c = container as Record<string, unknown>;
+                const name = this.getContainerName(c);
+                if (name && !containers.includes(container)) {
+                    await this.removeExcludedResource('docker', name, this.getContainerStableId(c));
+                }
+            }
+
             await this.stateManager.writeState(
                 'docker.containers.count',
                 { type: 'number', role: 'value', unit: '' },
@@ -353,8 +467,21 @@ export class DynamicResourceManager {
                 }
 
                 const name = names[0].replace(/^\//, '');
-                const sanitizedName = sanitizeResourceName(name);
-                const containerPrefix = `docker.containers.${sanitizedName}`;
+                const { key, previousKey } = this.getResourceKeys(name, this.getContainerStableId(c));
+                if (previousKey) {
+                    await this.objectManager?.migrateResource('docker', previousKey, key);
+                }
+                // A recreated container keeps its objects, found by the key of its old ID
+                // or, after a restart of the adapter, by the display name of its channel
+                if (this.stableResourceIds && this.objectManager) {
+                    const recreatedKey =
+                        previousKeys.get(name) ?? (await this.objectManager.findResourceKey('docker', name, key));
+                    if (recreatedKey) {
+                        await this.objectManager.migrateResource('docker', recreatedKey, key);
+                    }
+                }
+                this.containerKeys.set(name, key);
+                const containerPrefix = `docker.containers.${key}`;
 
                 await this.stateManager.writeState(`${containerPrefix}.name`, { type: 'string', role: 'text' }, null);
                 await this.stateManager.writeState(`${containerPrefix}.image`, { type: 'string', role: 'text' }, null);
@@ -374,6 +501,35 @@ export class DynamicResourceManager {
                     { type: 'number', role: 'value', unit: 'GB' },
                     null,
                 );
+                await this.stateManager.writeState(
+                    `${containerPrefix}.command`,
+                    { type: 'string', role: 'text' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${containerPrefix}.created`,
+                    { type: 'number', role: 'date' },
+                    null,
+                );
+                await this.stateManager.writeState(`${containerPrefix}.ports`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(
+                    `${containerPrefix}.ipAddresses`,
+                    { type: 'string', role: 'info.ip' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${containerPrefix}.networkMode`,
+                    { type: 'string', role: 'text' },
+                    null,
+                );
+                await this.stateManager.writeState(`${containerPrefix}.mounts`, { type: 'string', role: 'json' }, null);
+                if (trackUpdates) {
+                    await this.stateManager.writeState(
+                        `${containerPrefix}.updateAvailable`,
+                        { type: 'boolean', role: 'indicator' },
+                        null,
+                    );
+                }
 
                 // Create control buttons for container
                 await this.createDockerControlButtons(containerPrefix, c.id as string | null);
@@ -389,32 +545,166 @@ export class DynamicResourceManager {
             }
 
             const name = names[0].replace(/^\//, '');
-            if (!this.containerNames.has(name)) {
+            const key = this.containerKeys.get(name);
+            if (!this.containerNames.has(name) || !key) {
                 continue;
             }
 
-            const sanitizedName = sanitizeResourceName(name);
-            const containerPrefix = `docker.containers.${sanitizedName}`;
+            const containerPrefix = `docker.containers.${key}`;
+            if (this.stableResourceIds) {
+                await this.stateManager.setChannelName(containerPrefix, name);
+            }
 
             await this.stateManager.updateState(`${containerPrefix}.name`, name);
             await this.stateManager.updateState(`${containerPrefix}.image`, toStringOrNull(c.image));
             await this.stateManager.updateState(`${containerPrefix}.state`, toStringOrNull(c.state));
+            await this.stateManager.updateState(
+                `${containerPrefix}.running`,
+                c.state === undefined || c.state === null ? null : c.state === 'RUNNING',
+            );
             await this.stateManager.updateState(`${containerPrefix}.status`, toStringOrNull(c.status));
             await this.stateManager.updateState(`${containerPrefix}.autoStart`, toBooleanOrNull(c.autoStart));
             await this.stateManager.updateState(`${containerPrefix}.sizeGb`, bytesToGigabytes(c.sizeRootFs));
+            await this.stateManager.updateState(`${containerPrefix}.command`, toStringOrNull(c.command));
+
+            // Docker reports the creation time in seconds
+            const created = toNumberOrNull(c.created);
+            await this.stateManager.updateState(`${containerPrefix}.created`, created === null ? null : created * 1000);
+
+            const hostConfig = c.hostConfig as Record<string, unknown> | null;
+            await this.stateManager.updateState(`${containerPrefix}.ports`, formatContainerPorts(c.ports));
+            await this.stateManager.updateState(
+                `${containerPrefix}.ipAddresses`,
+                extractContainerIpAddresses(c.networkSettings),
+            );
+            await this.stateManager.updateState(
+                `${containerPrefix}.networkMode`,
+                toStringOrNull(hostConfig?.networkMode),
+            );
+            await this.stateManager.updateState(
+                `${containerPrefix}.mounts`,
+                Array.isArray(c.mounts) ? JSON.stringify(c.mounts) : null,
+            );
         }
 
         // Sync with ObjectManager
         if (this.objectManager) {
             const resourceMap = new Map<string, any>();
             for (const name of containerNames) {
-                const sanitizedName = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-                resourceMap.set(sanitizedName, { name });
+                resourceMap.set(this.containerKeys.get(name) ?? sanitizeResourceName(name), { name });
             }
             await this.objectManager.handleDynamicResources('docker', resourceMap);
         }
     }
 
+    /**
+     * Update the updateAvailable flags of the known containers.
+     * Runs separately from the container handler as both domains may be polled at different intervals.
+     *
+     * @param data - Unraid data containing container update statuses
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleContainerUpdateStatuses(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('docker.containers') || !selectedDomains.has('docker.updatesAvailable')) {
+            return;
+        }
+
+        const docker = data.docker as { containerUpdateStatuses?: unknown[] };
+        if (!docker?.containerUpdateStatuses || !Array.isArray(docker.containerUpdateStatuses)) {
+            return;
+        }
+
+        const updateStatuses = extractContainerUpdateStatuses(docker.containerUpdateStatuses);
+        for (const [name, key] of this.containerKeys) {
+            const updateStatus = updateStatuses.get(name);
+            await this.stateManager.updateState(
+                `docker.containers.${key}.updateAvailable`,
+                updateStatus === undefined ? null : updateStatus === 'UPDATE_AVAILABLE',
+            );
+        }
+    }
+
+    /**
+     * Handle dynamic Docker network state creation and updates
+     *
+     * @param data - Unraid data containing Docker network information
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicDockerNetworks(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('docker.networks')) {
+            return;
+        }
+
+        const docker = data.docker as { networks?: unknown[] };
+        if (!docker?.networks || !Array.isArray(docker.networks)) {
+            return;
+        }
+
+        const networks = docker.networks;
+        const networkNames = new Set<string>();
+        for (const network of networks) {
+            const name = toStringOrNull((network as Record<string, unknown>).name);
+            if (name) {
+                networkNames.add(name);
+            }
+        }
+
+        const needsUpdate =
+            !this.dockerNetworksDetected ||
+            networkNames.size !== this.networkNames.size ||
+            ![...networkNames].every(name => this.networkNames.has(name));
+
+        if (needsUpdate) {
+            this.networkNames = networkNames;
+            this.dockerNetworksDetected = true;
+
+            this.adapter.log.info(`Detected ${networkNames.size} Docker networks`);
+
+            await this.stateManager.writeState(
+                'docker.networks.count',
+                { type: 'number', role: 'value', unit: '' },
+                networkNames.size,
+            );
+
+            for (const name of networkNames) {
+                await this.createDockerNetworkStates(`docker.networks.${sanitizeResourceName(name)}`);
+            }
+        }
+
+        // Update network values
+        for (const network of networks) {
+            const n = network as Record<string, unknown>;
+            const name = toStringOrNull(n.name);
+            if (!name || !this.networkNames.has(name)) {
+                continue;
+            }
+
+            const networkPrefix = `docker.networks.${sanitizeResourceName(name)}`;
+            const { subnets, gateways } = extractNetworkIpam(n.ipam);
+            const containerNames = extractNetworkContainerNames(n.containers);
+
+            await this.stateManager.updateState(`${networkPrefix}.name`, name);
+            await this.stateManager.updateState(`${networkPrefix}.driver`, toStringOrNull(n.driver));
+            await this.stateManager.updateState(`${networkPrefix}.scope`, toStringOrNull(n.scope));
+            await this.stateManager.updateState(`${networkPrefix}.internal`, toBooleanOrNull(n.internal));
+            await this.stateManager.updateState(`${networkPrefix}.attachable`, toBooleanOrNull(n.attachable));
+            await this.stateManager.updateState(`${networkPrefix}.enableIPv6`, toBooleanOrNull(n.enableIPv6));
+            await this.stateManager.updateState(`${networkPrefix}.subnet`, subnets);
+            await this.stateManager.updateState(`${networkPrefix}.gateway`, gateways);
+            await this.stateManager.updateState(`${networkPrefix}.containerCount`, containerNames.length);
+            await this.stateManager.updateState(`${networkPrefix}.containers`, containerNames.join(', '));
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const name of networkNames) {
+                resourceMap.set(sanitizeResourceName(name), { name });
+            }
+            await this.objectManager.handleDynamicResources('dockerNetwork', resourceMap);
+        }
+    }
+
     /**
      * Handle dynamic share state creation and updates
      *
@@ -426,11 +716,15 @@ export class DynamicResourceManager {
             return;
         }
 
-        const shares = data.shares as unknown[];
-        if (!shares || !Array.isArray(shares)) {
+        if (!data.shares || !Array.isArray(data.shares)) {
             return;
         }
 
+        const allShares = data.shares as unknown[];
+        const shares = allShares.filter(share =>
+            this.isResourceIncluded('share', toStringOrNull((share as Record<string, unknown>).name)),
+        );
+
         const shareNames = new Set<string>();
         for (const share of shares) {
             const s = share as Record<string, unknown>;
@@ -451,6 +745,14 @@ export class DynamicResourceManager {
 
             this.adapter.log.info(`Detected ${shareNames.size} shares`);
 
+            for (const share of allShares) {
+                const s = share as Record<string, unknown>;
+                const name = toStringOrNull(s.name);
+                if (name && !shares.includes(share)) {
+                    await this.removeExcludedResource('share', name, this.getShareStableId(s));
+                }
+            }
+
             await this.stateManager.writeState(
                 'shares.count',
                 { type: 'number', role: 'value', unit: '' },
@@ -464,8 +766,11 @@ export class DynamicResourceManager {
                     continue;
                 }
 
-                const sanitizedName = sanitizeResourceName(name);
-                const sharePrefix = `shares.${sanitizedName}`;
+                const { key, previousKey } = this.getResourceKeys(name, this.getShareStableId(s));
+                if (previousKey) {
+                    await this.objectManager?.migrateResource('share', previousKey, key);
+                }
+                const sharePrefix = `shares.${key}`;
 
                 await this.stateManager.writeState(`${sharePrefix}.name`, { type: 'string', role: 'text' }, null);
                 await this.stateManager.writeState(
@@ -503,7 +808,10 @@ export class DynamicResourceManager {
                 continue;
             }
 
-            const sharePrefix = `shares.${name.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+            const sharePrefix = `shares.${this.getResourceKeys(name, this.getShareStableId(s)).key}`;
+            if (this.stableResourceIds) {
+                await this.stateManager.setChannelName(sharePrefix, name);
+            }
 
             await this.stateManager.updateState(`${sharePrefix}.name`, name);
             await this.stateManager.updateState(`${sharePrefix}.freeGb`, kilobytesToGigabytes(s.free));
@@ -528,9 +836,12 @@ export class DynamicResourceManager {
         // Sync with ObjectManager
         if (this.objectManager) {
             const resourceMap = new Map<string, any>();
-            for (const name of shareNames) {
-                const sanitizedName = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-                resourceMap.set(sanitizedName, { name });
+            for (const share of shares) {
+                const s = share as Record<string, unknown>;
+                const name = s.name as string | null;
+                if (name) {
+                    resourceMap.set(this.getResourceKeys(name, this.getShareStableId(s)).key, { name });
+                }
             }
             await this.objectManager.handleDynamicResources('share', resourceMap);
         }
@@ -552,7 +863,10 @@ export class DynamicResourceManager {
             return;
         }
 
-        const domains = Array.isArray(vms.domains) ? vms.domains : [];
+        const allDomains = Array.isArray(vms.domains) ? vms.domains : [];
+        const domains = allDomains.filter(vm =>
+            this.isResourceIncluded('vm', toStringOrNull((vm as Record<string, unknown>).name)),
+        );
         const vmUuids = new Set<string>();
 
         for (const vm of domains) {
@@ -574,6 +888,14 @@ export class DynamicResourceManager {
 
             this.adapter.log.info(`Detected ${vmUuids.size} VMs`);
 
+            for (const vm of allDomains) {
+                const v = vm as Record<string, unknown>;
+                const name = toStringOrNull(v.name);
+                if (name && !domains.includes(vm)) {
+                    await this.removeExcludedResource('vm', name, toStringOrNull(v.uuid));
+                }
+            }
+
             await this.stateManager.writeState('vms.count', { type: 'number', role: 'value', unit: '' }, vmUuids.size);
 
             for (const vm of domains) {
@@ -584,8 +906,11 @@ export class DynamicResourceManager {
                     continue;
                 }
 
-                const sanitizedName = sanitizeResourceName(name);
-                const vmPrefix = `vms.${sanitizedName}`;
+                const { key, previousKey } = this.getResourceKeys(name, uuid);
+                if (previousKey) {
+                    await this.objectManager?.migrateResource('vm', previousKey, key);
+                }
+                const vmPrefix = `vms.${key}`;
 
                 await this.stateManager.writeState(`${vmPrefix}.name`, { type: 'string', role: 'text' }, null);
                 await this.stateManager.writeState(
@@ -612,10 +937,14 @@ export class DynamicResourceManager {
                 continue;
             }
 
-            const vmPrefix = `vms.${name.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+            const vmPrefix = `vms.${this.getResourceKeys(name, uuid).key}`;
+            if (this.stableResourceIds) {
+                await this.stateManager.setChannelName(vmPrefix, name);
+            }
 
             await this.stateManager.updateState(`${vmPrefix}.name`, name);
             await this.stateManager.updateState(`${vmPrefix}.state`, toStringOrNull(v.state));
+            await this.stateManager.updateState(`${vmPrefix}.desiredState`, toVmDesiredState(v.state));
             await this.stateManager.updateState(`${vmPrefix}.uuid`, uuid);
         }
 
@@ -627,14 +956,414 @@ export class DynamicResourceManager {
                 const name = v.name as string | null;
                 const uuid = v.uuid as string | null;
                 if (name && uuid && this.vmUuids.has(uuid)) {
-                    const sanitizedName = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-                    resourceMap.set(sanitizedName, { name, uuid });
+                    resourceMap.set(this.getResourceKeys(name, uuid).key, { name, uuid });
                 }
             }
             await this.objectManager.handleDynamicResources('vm', resourceMap);
         }
     }
 
+    /**
+     * Handle dynamic physical disk state creation and updates.
+     * Disks are keyed by serial number so their states follow a drive across slot changes.
+     *
+     * @param data - Unraid data containing physical disk information
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicHardwareDisks(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('hardware.disks')) {
+            return;
+        }
+
+        if (!data.disks || !Array.isArray(data.disks)) {
+            return;
+        }
+
+        // Physical disks match the filter by name, device or serial number
+        const allDisks = data.disks as unknown[];
+        const disks = allDisks.filter(disk => {
+            const d = disk as Record<string, unknown>;
+            return this.isResourceIncluded(
+                'hardwareDisk',
+                toStringOrNull(d.name),
+                toStringOrNull(d.device),
+                toStringOrNull(d.serialNum),
+            );
+        });
+
+        const diskKeys = new Set<string>();
+        for (const disk of disks) {
+            const key = this.getHardwareDiskKey(disk as Record<string, unknown>);
+            if (key) {
+                diskKeys.add(key);
+            }
+        }
+
+        const needsUpdate =
+            !this.hardwareDisksDetected ||
+            diskKeys.size !== this.hardwareDiskKeys.size ||
+            ![...diskKeys].every(key => this.hardwareDiskKeys.has(key));
+
+        if (needsUpdate) {
+            this.hardwareDiskKeys = diskKeys;
+            this.hardwareDisksDetected = true;
+
+            this.adapter.log.info(`Detected ${diskKeys.size} physical disks`);
+
+            for (const disk of allDisks) {
+                const key = this.getHardwareDiskKey(disk as Record<string, unknown>);
+                if (key && !disks.includes(disk)) {
+                    await this.objectManager?.removeResource('hardwareDisk', key);
+                }
+            }
+
+            await this.stateManager.writeState(
+                'hardware.disks.count',
+                { type: 'number', role: 'value', unit: '' },
+                diskKeys.size,
+            );
+
+            for (const key of diskKeys) {
+                await this.createHardwareDiskStates(`hardware.disks.${key}`);
+            }
+        }
+
+        // Update disk values
+        for (const disk of disks) {
+            const d = disk as Record<string, unknown>;
+            const key = this.getHardwareDiskKey(d);
+            if (!key || !this.hardwareDiskKeys.has(key)) {
+                continue;
+            }
+
+            const diskPrefix = `hardware.disks.${key}`;
+            const smartStatus = toStringOrNull(d.smartStatus);
+            const partitions = Array.isArray(d.partitions) ? (d.partitions as Record<string, unknown>[]) : [];
+
+            await this.stateManager.updateState(`${diskPrefix}.name`, toStringOrNull(d.name));
+            await this.stateManager.updateState(`${diskPrefix}.device`, toStringOrNull(d.device));
+            await this.stateManager.updateState(`${diskPrefix}.type`, toStringOrNull(d.type));
+            await this.stateManager.updateState(`${diskPrefix}.vendor`, toStringOrNull(d.vendor));
+            await this.stateManager.updateState(`${diskPrefix}.serialNum`, toStringOrNull(d.serialNum));
+            await this.stateManager.updateState(`${diskPrefix}.firmwareRevision`, toStringOrNull(d.firmwareRevision));
+            await this.stateManager.updateState(`${diskPrefix}.interfaceType`, toStringOrNull(d.interfaceType));
+            await this.stateManager.updateState(`${diskPrefix}.sizeGb`, bytesToGigabytes(d.size));
+            await this.stateManager.updateState(`${diskPrefix}.temperature`, toNumberOrNull(d.temperature));
+            await this.stateManager.updateState(`${diskPrefix}.isSpinning`, toBooleanOrNull(d.isSpinning));
+            await this.stateManager.updateState(`${diskPrefix}.smartStatus`, smartStatus);
+            await this.stateManager.updateState(
+                `${diskPrefix}.smartAlarm`,
+                smartStatus === null ? null : smartStatus !== 'OK',
+            );
+            await this.stateManager.updateState(`${diskPrefix}.partitionCount`, partitions.length);
+            await this.stateManager.updateState(
+                `${diskPrefix}.partitions`,
+                JSON.stringify(
+                    partitions.map(partition => ({
+                        name: toStringOrNull(partition.name),
+                        fsType: toStringOrNull(partition.fsType),
+                        sizeGb: bytesToGigabytes(partition.size),
+                    })),
+                ),
+            );
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const key of diskKeys) {
+                resourceMap.set(key, { key });
+            }
+            await this.objectManager.handleDynamicResources('hardwareDisk', resourceMap);
+        }
+    }
+
+    /**
+     * Handle dynamic UPS device state creation and updates
+     *
+     * @param data - Unraid data containing UPS device information
+     * @param selectedDomains - Set of selected domain IDs
+     * @param partial - Data only contains changed devices (live update), skip detection and cleanup
+     */
+    async handleDynamicUpsDevices(
+        data: Record<string, unknown>,
+        selectedDomains: Set<string>,
+        partial = false,
+    ): Promise<void> {
+        if (!selectedDomains.has('ups.devices')) {
+            return;
+        }
+
+        const devices = data.upsDevices as unknown[];
+        if (!devices || !Array.isArray(devices)) {
+            return;
+        }
+
+        if (!partial) {
+            const upsNames = new Set<string>();
+            for (const device of devices) {
+                const u = device as Record<string, unknown>;
+                const name = u.name as string | null;
+                if (name) {
+                    upsNames.add(name);
+                }
+            }
+
+            const needsUpdate =
+                !this.upsDevicesDetected ||
+                upsNames.size !== this.upsNames.size ||
+                ![...upsNames].every(name => this.upsNames.has(name));
+
+            if (needsUpdate) {
+                this.upsNames = upsNames;
+                this.upsDevicesDetected = true;
+
+                this.adapter.log.info(`Detected ${upsNames.size} UPS devices`);
+
+                await this.stateManager.writeState(
+                    'ups.count',
+                    { type: 'number', role: 'value', unit: '' },
+                    upsNames.size,
+                );
+
+                for (const name of upsNames) {
+                    await this.createUpsStates(`ups.${sanitizeResourceName(name)}`);
+                }
+            }
+        }
+
+        // Update UPS values
+        for (const device of devices) {
+            const u = device as Record<string, unknown>;
+            const name = u.name as string | null;
+            if (!name || !this.upsNames.has(name)) {
+                continue;
+            }
+
+            const upsPrefix = `ups.${sanitizeResourceName(name)}`;
+            const battery = (u.battery ?? {}) as Record<string, unknown>;
+            const power = (u.power ?? {}) as Record<string, unknown>;
+            const status = toStringOrNull(u.status);
+
+            await this.stateManager.updateState(`${upsPrefix}.name`, name);
+            await this.stateManager.updateState(`${upsPrefix}.model`, toStringOrNull(u.model));
+            await this.stateManager.updateState(`${upsPrefix}.status`, status);
+            await this.stateManager.updateState(
+                `${upsPrefix}.onBattery`,
+                status === null ? null : /on battery|^OB\b/i.test(status),
+            );
+            await this.stateManager.updateState(
+                `${upsPrefix}.lowBattery`,
+                status === null ? null : /low battery|\bLB\b/i.test(status),
+            );
+
+            await this.stateManager.updateState(
+                `${upsPrefix}.battery.chargeLevel`,
+                toNumberOrNull(battery.chargeLevel),
+            );
+            await this.stateManager.updateState(
+                `${upsPrefix}.battery.estimatedRuntime`,
+                toNumberOrNull(battery.estimatedRuntime),
+            );
+            await this.stateManager.updateState(`${upsPrefix}.battery.health`, toStringOrNull(battery.health));
+
+            await this.stateManager.updateState(`${upsPrefix}.power.inputVoltage`, toNumberOrNull(power.inputVoltage));
+            await this.stateManager.updateState(
+                `${upsPrefix}.power.outputVoltage`,
+                toNumberOrNull(power.outputVoltage),
+            );
+            await this.stateManager.updateState(
+                `${upsPrefix}.power.loadPercentage`,
+                toNumberOrNull(power.loadPercentage),
+            );
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager && !partial) {
+            const resourceMap = new Map<string, any>();
+            for (const name of this.upsNames) {
+                resourceMap.set(sanitizeResourceName(name), { name });
+            }
+            await this.objectManager.handleDynamicResources('ups', resourceMap);
+        }
+    }
+
+    private async createDockerNetworkStates(networkPrefix: string): Promise<void> {
+        await this.stateManager.writeState(`${networkPrefix}.name`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.driver`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.scope`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.internal`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.attachable`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.enableIPv6`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.subnet`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.gateway`, { type: 'string', role: 'info.ip' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.containerCount`, { type: 'number', role: 'value' }, null);
+        await this.stateManager.writeState(`${networkPrefix}.containers`, { type: 'string', role: 'text' }, null);
+    }
+
+    /**
+     * Get the object ID key of a physical disk (serial number, device name as fallback)
+     *
+     * @param disk - Physical disk data
+     */
+    private getHardwareDiskKey(disk: Record<string, unknown>): string | null {
+        const identifier = toStringOrNull(disk.serialNum)?.trim() || toStringOrNull(disk.device)?.trim();
+        return identifier ? sanitizeResourceName(identifier) : null;
+    }
+
+    /**
+     * Object keys of a container, VM or share. The sanitized name is used by default,
+     * the Unraid ID with stable resource IDs. The key of the other mode is returned to move existing objects.
+     *
+     * @param name - Display name of the resource
+     * @param stableId - Unraid ID of the resource
+     */
+    private getResourceKeys(name: string, stableId: string | null): { key: string; previousKey: string | null } {
+        const nameKey = sanitizeResourceName(name);
+        const idKey = stableId ? sanitizeResourceName(stableId) : null;
+        if (!idKey) {
+            return { key: nameKey, previousKey: null };
+        }
+        return this.stableResourceIds ? { key: idKey, previousKey: nameKey } : { key: nameKey, previousKey: idKey };
+    }
+
+    /**
+     * Check whether a resource passes the include/exclude filter of its type
+     *
+     * @param resourceType - Filterable resource type
+     * @param names - Names of the resource, matching one of them is enough
+     */
+    private isResourceIncluded(resourceType: FilterableResourceType, ...names: (string | null)[]): boolean {
+        const filter = this.resourceFilters[resourceType];
+        if (!filter) {
+            return true;
+        }
+
+        const candidates = names.filter((name): name is string => !!name);
+        const matches = (patterns: RegExp[]): boolean =>
+            patterns.some(pattern => candidates.some(name => pattern.test(name)));
+        return (!filter.include.length || matches(filter.include)) && !matches(filter.exclude);
+    }
+
+    /**
+     * Remove the objects of a resource excluded by the filter, under its key of both naming modes
+     *
+     * @param resourceType - The type of the resource
+     * @param name - Display name of the resource
+     * @param stableId - Unraid ID of the resource
+     */
+    private async removeExcludedResource(
+        resourceType: 'docker' | 'share' | 'vm',
+        name: string,
+        stableId: string | null,
+    ): Promise<void> {
+        const { key, previousKey } = this.getResourceKeys(name, stableId);
+        for (const resourceKey of [key, previousKey]) {
+            if (resourceKey) {
+                await this.objectManager?.removeResource(resourceType, resourceKey);
+            }
+        }
+    }
+
+    /**
+     * Container name without the leading slash reported by Docker
+     *
+     * @param container - Container from the query result
+     */
+    private getContainerName(container: Record<string, unknown>): string | null {
+        const names = container.names;
+        return Array.isArray(names) ? (toStringOrNull(names[0])?.replace(/^\//, '') ?? null) : null;
+    }
+
+    /**
+     * Short Docker ID of a container, without the server prefix of the Unraid PrefixedID
+     *
+     * @param container - Container from the query result
+     */
+    private getContainerStableId(container: Record<string, unknown>): string | null {
+        return toStringOrNull(container.id)?.split(':').pop()?.slice(0, 12) || null;
+    }
+
+    /**
+     * Share ID without the server prefix of the Unraid PrefixedID
+     *
+     * @param share - Share from the query result
+     */
+    private getShareStableId(share: Record<string, unknown>): string | null {
+        return toStringOrNull(share.id)?.split(':').pop() || null;
+    }
+
+    private async createHardwareDiskStates(diskPrefix: string): Promise<void> {
+        await this.stateManager.writeState(`${diskPrefix}.name`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.device`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.type`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.vendor`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.serialNum`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.firmwareRevision`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.interfaceType`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.sizeGb`, { type: 'number', role: 'value', unit: 'GB' }, null);
+        await this.stateManager.writeState(
+            `${diskPrefix}.temperature`,
+            { type: 'number', role: 'value.temperature', unit: '°C' },
+            null,
+        );
+        await this.stateManager.writeState(`${diskPrefix}.isSpinning`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(
+            `${diskPrefix}.smartStatus`,
+            { type: 'string', role: 'indicator.status' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${diskPrefix}.smartAlarm`,
+            { type: 'boolean', role: 'indicator.alarm' },
+            null,
+        );
+        await this.stateManager.writeState(`${diskPrefix}.partitionCount`, { type: 'number', role: 'value' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.partitions`, { type: 'string', role: 'json' }, null);
+    }
+
+    private async createUpsStates(upsPrefix: string): Promise<void> {
+        await this.stateManager.writeState(`${upsPrefix}.name`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.model`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.status`, { type: 'string', role: 'indicator.status' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.onBattery`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(
+            `${upsPrefix}.lowBattery`,
+            { type: 'boolean', role: 'indicator.lowbat' },
+            null,
+        );
+
+        // Battery
+        await this.stateManager.writeState(
+            `${upsPrefix}.battery.chargeLevel`,
+            { type: 'number', role: 'value.battery', unit: '%' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.battery.estimatedRuntime`,
+            { type: 'number', role: 'value', unit: 's' },
+            null,
+        );
+        await this.stateManager.writeState(`${upsPrefix}.battery.health`, { type: 'string', role: 'text' }, null);
+
+        // Power
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.inputVoltage`,
+            { type: 'number', role: 'value.voltage', unit: 'V' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.outputVoltage`,
+            { type: 'number', role: 'value.voltage', unit: 'V' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.loadPercentage`,
+            { type: 'number', role: 'value.percent', unit: '%' },
+            null,
+        );
+    }
+
     private async createDiskStates(prefix: string, disks: unknown[]): Promise<void> {
         for (let i = 0; i < disks.length; i++) {
             const disk = disks[i] as Record<string, unknown>;
@@ -759,6 +1488,39 @@ export class DynamicResourceManager {
         }
     }
 
+    /**
+     * Create control buttons for the array and its parity check
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async createArrayControlButtons(selectedDomains: Set<string>): Promise<void> {
+        if (selectedDomains.has('array.status')) {
+            await this.createControlButtons('array', ARRAY_CONTROL_STATES, 'array', 'array');
+            if (this.deniedCommands.has('array')) {
+                await this.removeObjectIfExists('array.controlArmed');
+            } else {
+                await this.stateManager.writeState('array.controlArmed', { type: 'boolean', role: 'indicator' }, false);
+            }
+        }
+
+        if (selectedDomains.has('array.parity')) {
+            await this.createControlButtons('array.parity', PARITY_CONTROL_STATES, 'parity', 'array');
+        }
+    }
+
+    /**
+     * Create commands for managing Unraid notifications
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async createNotificationControlButtons(selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('notifications.overview')) {
+            return;
+        }
+
+        await this.createControlButtons('notifications', NOTIFICATION_CONTROL_STATES, 'notification', 'notifications');
+    }
+
     /**
      * Create control buttons for a Docker container
      *
@@ -771,59 +1533,97 @@ export class DynamicResourceManager {
             return;
         }
 
-        for (const control of DOCKER_CONTROL_STATES) {
-            const stateId = `${containerPrefix}.${control.id}`;
+        await this.createControlButtons(containerPrefix, DOCKER_CONTROL_STATES, 'docker', containerId);
+        await this.createDesiredStates(containerPrefix, DOCKER_DESIRED_STATES, 'docker', containerId);
+    }
 
-            // Get translation object or use control.common.name as fallback
+    /**
+     * Create control buttons for a VM
+     *
+     * @param vmPrefix - The state prefix for the VM
+     * @param vmId - The VM ID for mutations
+     */
+    private async createVmControlButtons(vmPrefix: string, vmId: string | null): Promise<void> {
+        if (!vmId) {
+            this.adapter.log.warn(`VM at ${vmPrefix} has no ID, skipping control buttons`);
+            return;
+        }
+
+        await this.createControlButtons(vmPrefix, VM_CONTROL_STATES, 'vm', vmId);
+        await this.createDesiredStates(vmPrefix, VM_DESIRED_STATES, 'vm', vmId);
+    }
+
+    /**
+     * Create writable desired-state states that are handled by the ControlManager.
+     * Their values follow the polled resource state.
+     *
+     * @param prefix - The state prefix of the controlled resource
+     * @param controls - Desired-state mappings to create
+     * @param resourceType - Resource type used by the ControlManager
+     * @param resourceId - Resource ID passed to the mutations
+     */
+    private async createDesiredStates(
+        prefix: string,
+        controls: readonly StateMapping[],
+        resourceType: string,
+        resourceId: string,
+    ): Promise<void> {
+        // Without permission the states only report the resource state
+        const denied = this.deniedCommands.has(resourceType);
+
+        for (const control of controls) {
             const translations = (stateTranslations as Record<string, any>)[control.id];
-            const name: ioBroker.StringOrTranslated = translations || control.common.name;
 
-            // Always use setObjectAsync to ensure translations are updated
-            await this.adapter.setObjectAsync(stateId, {
+            // Extend instead of replace, so history settings (`common.custom`) survive the rebuild
+            await this.adapter.extendObjectAsync(`${prefix}.${control.id}`, {
                 type: 'state',
                 common: {
                     type: control.common.type,
                     role: control.common.role,
                     read: control.common.read ?? true,
-                    write: control.common.write ?? true,
-                    def: control.common.def ?? false,
-                    name,
-                    desc: control.common.desc,
-                    custom: {},
+                    write: !denied && (control.common.write ?? true),
+                    name: translations || control.common.name,
+                    states: control.common.states,
                 } as ioBroker.StateCommon,
                 native: {
-                    resourceType: 'docker',
-                    resourceId: containerId,
-                    action: control.id.split('.').pop(),
+                    resourceType: denied ? null : resourceType,
+                    resourceId: denied ? null : resourceId,
+                    action: control.id,
                 },
             });
-
-            // Initialize button state to false
-            await this.adapter.setStateAsync(stateId, false, true);
         }
     }
 
     /**
-     * Create control buttons for a VM
+     * Create button states that are handled by the ControlManager
      *
-     * @param vmPrefix - The state prefix for the VM
-     * @param vmId - The VM ID for mutations
+     * @param prefix - The state prefix of the controlled resource
+     * @param controls - Control state mappings to create
+     * @param resourceType - Resource type used by the ControlManager
+     * @param resourceId - Resource ID passed to the mutations
      */
-    private async createVmControlButtons(vmPrefix: string, vmId: string | null): Promise<void> {
-        if (!vmId) {
-            this.adapter.log.warn(`VM at ${vmPrefix} has no ID, skipping control buttons`);
+    private async createControlButtons(
+        prefix: string,
+        controls: readonly StateMapping[],
+        resourceType: string,
+        resourceId: string,
+    ): Promise<void> {
+        if (this.deniedCommands.has(resourceType)) {
+            for (const control of [...controls, ...COMMAND_FEEDBACK_STATES]) {
+                await this.removeObjectIfExists(`${prefix}.${control.id}`);
+            }
             return;
         }
 
-        for (const control of VM_CONTROL_STATES) {
-            const stateId = `${vmPrefix}.${control.id}`;
+        for (const control of controls) {
+            const stateId = `${prefix}.${control.id}`;
 
             // Get translation object or use control.common.name as fallback
             const translations = (stateTranslations as Record<string, any>)[control.id];
             const name: ioBroker.StringOrTranslated = translations || control.common.name;
 
-            // Always use setObjectAsync to ensure translations are updated
-            await this.adapter.setObjectAsync(stateId, {
+            // Always extend the object to ensure translations are updated while keeping `common.custom`
+            await this.adapter.extendObjectAsync(stateId, {
                 type: 'state',
                 common: {
                     type: control.common.type,
@@ -833,17 +1633,57 @@ export class DynamicResourceManager {
                     def: control.common.def ?? false,
                     name,
                     desc: control.common.desc,
-                    custom: {},
                 } as ioBroker.StateCommon,
                 native: {
-                    resourceType: 'vm',
-                    resourceId: vmId,
+                    resourceType,
+                    resourceId,
                     action: control.id.split('.').pop(),
                 },
             });
 
-            // Initialize button state to false
-            await this.adapter.setStateAsync(stateId, false, true);
+            // Initialize button state to false, text commands to an empty string
+            await this.adapter.setStateAsync(stateId, control.common.type === 'string' ? '' : false, true);
+        }
+
+        await this.createCommandFeedbackStates(prefix);
+    }
+
+    /**
+     * Create the result and progress states of a commands channel.
+     * Existing results are kept, only a stale progress flag is cleared.
+     *
+     * @param prefix - Resource prefix containing the commands channel
+     */
+    private async createCommandFeedbackStates(prefix: string): Promise<void> {
+        for (const feedback of COMMAND_FEEDBACK_STATES) {
+            const stateId = `${prefix}.${feedback.id}`;
+            const translations = (stateTranslations as Record<string, any>)[feedback.id];
+
+            await this.adapter.extendObjectAsync(stateId, {
+                type: 'state',
+                common: {
+                    type: feedback.common.type,
+                    role: feedback.common.role,
+                    read: feedback.common.read ?? true,
+                    write: feedback.common.write ?? false,
+                    def: feedback.common.def,
+                    name: translations || feedback.common.name,
+                } as ioBroker.StateCommon,
+                native: {},
+            });
+        }
+
+        await this.adapter.setStateAsync(`${prefix}.commands.inProgress`, false, true);
+    }
+
+    /**
+     * Delete an object if it exists
+     *
+     * @param id - Object ID to delete
+     */
+    private async removeObjectIfExists(id: string): Promise<void> {
+        if (await this.adapter.getObjectAsync(id)) {
+            await this.adapter.delObjectAsync(id);
         }
     }
 }
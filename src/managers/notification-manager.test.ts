@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { AdapterInterface } from '../types/adapter-types';
+import { NotificationManager } from './notification-manager';
+import type { StateManager } from './state-manager';
+
+const FORWARDED_IDS = 'notifications.forwardedIds';
+const selection = new Set(['notifications.overview']);
+
+/**
+ * Create a notification manager keeping written states in memory
+ *
+ * @param forwardedIds - Persisted IDs of already forwarded notifications
+ */
+function setup(forwardedIds?: string[]): {
+    manager: NotificationManager;
+    registerNotification: sinon.SinonStub;
+    persistedIds: () => string[];
+} {
+    const states = new Map<string, unknown>();
+    if (forwardedIds) {
+        states.set(FORWARDED_IDS, JSON.stringify(forwardedIds));
+    }
+    const registerNotification = sinon.stub().resolves();
+    const adapter = {
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        getStateAsync: (id: string) => Promise.resolve(states.has(id) ? { val: states.get(id) } : null),
+        registerNotification,
+    };
+    const stateManager = {
+        writeState: (id: string, _common: unknown, value: unknown) => {
+            states.set(id, value);
+            return Promise.resolve();
+        },
+        updateState: (id: string, value: unknown) => {
+            states.set(id, value);
+            return Promise.resolve();
+        },
+    };
+    return {
+        manager: new NotificationManager(
+            adapter as unknown as AdapterInterface,
+            stateManager as unknown as StateManager,
+        ),
+        registerNotification,
+        persistedIds: () => JSON.parse(states.get(FORWARDED_IDS) as string) as string[],
+    };
+}
+
+/**
+ * Polled data with the given unread notifications
+ *
+ * @param notifications - Unread notifications
+ */
+function unread(...notifications: Record<string, unknown>[]): Record<string, unknown> {
+    return { notifications: { list: notifications } };
+}
+
+describe('NotificationManager', () => {
+    it('forwards alerts and warnings with their category and ignores other importances', async () => {
+        const { manager, registerNotification, persistedIds } = setup();
+
+        await manager.handleNotifications(
+            unread(
+                { id: 'n1', importance: 'ALERT', title: 'Array', subject: 'Disk 1', description: 'read errors ' },
+                { id: 'n2', importance: 'WARNING', subject: 'Parity check finished' },
+                { id: 'n3', importance: 'INFO', subject: 'Backup done' },
+                { id: 'n4', importance: 'NORMAL', subject: 'Update installed' },
+            ),
+            selection,
+        );
+
+        expect(registerNotification.args).to.deep.equal([
+            ['unraid', 'unraidAlert', 'Array - Disk 1 - read errors'],
+            ['unraid', 'unraidWarning', 'Parity check finished'],
+        ]);
+        expect(persistedIds()).to.deep.equal(['n1', 'n2']);
+    });
+
+    it('skips notifications forwarded before the restart', async () => {
+        const { manager, registerNotification, persistedIds } = setup(['n1']);
+
+        await manager.handleNotifications(
+            unread({ id: 'n1', importance: 'ALERT' }, { id: 'n2', importance: 'ALERT' }),
+            selection,
+        );
+        await manager.handleNotifications(unread({ id: 'n2', importance: 'ALERT' }), selection);
+
+        expect(registerNotification.callCount).to.equal(1);
+        expect(registerNotification.firstCall.args[2]).to.equal('Unraid notification');
+        expect(persistedIds()).to.deep.equal(['n1', 'n2']);
+    });
+
+    it('remembers only the newest 200 forwarded IDs', async () => {
+        const previous = Array.from({ length: 200 }, (_value, index) => `old${index}`);
+        const { manager, persistedIds } = setup(previous);
+
+        await manager.handleNotifications(unread({ id: 'new', importance: 'WARNING' }), selection);
+
+        expect(persistedIds()).to.have.length(200);
+        expect(persistedIds()[0]).to.equal('old1');
+        expect(persistedIds().at(-1)).to.equal('new');
+    });
+
+    it('forwards a notification again after the ioBroker notification failed', async () => {
+        const { manager, registerNotification, persistedIds } = setup([]);
+        registerNotification.onFirstCall().rejects(new Error('Notification system not ready'));
+
+        await manager.handleNotifications(unread({ id: 'n1', importance: 'ALERT' }), selection);
+        expect(persistedIds()).to.deep.equal([]);
+
+        await manager.handleNotifications(unread({ id: 'n1', importance: 'ALERT' }), selection);
+
+        expect(registerNotification.callCount).to.equal(2);
+        expect(persistedIds()).to.deep.equal(['n1']);
+    });
+
+    it('does nothing while the notifications domain is not selected', async () => {
+        const { manager, registerNotification } = setup();
+
+        await manager.handleNotifications(unread({ id: 'n1', importance: 'ALERT' }), new Set(['info.os']));
+
+        expect(registerNotification.called).to.equal(false);
+    });
+});
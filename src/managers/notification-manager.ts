@@ -0,0 +1,133 @@
+import type { AdapterInterface } from '../types/adapter-types';
+import type { StateManager } from './state-manager';
+import { toStringOrNull } from '../utils/data-transformers';
+
+/**
+ * ioBroker notification category per Unraid importance (see `notifications` in io-package.json)
+ */
+const IMPORTANCE_CATEGORIES: Readonly<Record<string, string>> = {
+    ALERT: 'unraidAlert',
+    WARNING: 'unraidWarning',
+};
+
+/**
+ * Forwards unread Unraid notifications into the ioBroker notification system.
+ * Forwarded notification IDs are persisted so a restart does not raise them again.
+ */
+export class NotificationManager {
+    private forwardedIds: string[] = [];
+    private loaded = false;
+
+    /** State holding the IDs of already forwarded notifications */
+    private readonly forwardedIdsStateId = 'notifications.forwardedIds';
+    /** Maximum number of remembered notification IDs */
+    private readonly maxForwardedIds = 200;
+
+    /**
+     * Create a new notification manager
+     *
+     * @param adapter - Adapter interface for notifications and state access
+     * @param stateManager - State manager for the forwarded IDs state
+     */
+    constructor(
+        private readonly adapter: AdapterInterface,
+        private readonly stateManager: StateManager,
+    ) {}
+
+    /**
+     * Forward new unread ALERT and WARNING notifications
+     *
+     * @param data - Unraid data containing the unread notification list
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleNotifications(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('notifications.overview')) {
+            return;
+        }
+
+        const notifications = data.notifications as { list?: unknown[] } | undefined;
+        if (!notifications?.list || !Array.isArray(notifications.list)) {
+            return;
+        }
+
+        await this.loadForwardedIds();
+
+        let changed = false;
+        for (const entry of notifications.list) {
+            const notification = entry as Record<string, unknown>;
+            const id = toStringOrNull(notification.id);
+            const category = IMPORTANCE_CATEGORIES[toStringOrNull(notification.importance) ?? ''];
+            if (!id || !category || this.forwardedIds.includes(id)) {
+                continue;
+            }
+
+            try {
+                await this.adapter.registerNotification('unraid', category, this.formatMessage(notification));
+                this.adapter.log.debug(`Forwarded Unraid notification ${id} as ${category}`);
+            } catch (error) {
+                this.adapter.log.warn(`Failed to forward Unraid notification ${id}: ${this.describeError(error)}`);
+                continue;
+            }
+
+            this.forwardedIds.push(id);
+            changed = true;
+        }
+
+        if (changed) {
+            this.forwardedIds = this.forwardedIds.slice(-this.maxForwardedIds);
+            await this.stateManager.updateState(this.forwardedIdsStateId, JSON.stringify(this.forwardedIds));
+        }
+    }
+
+    /**
+     * Load the forwarded IDs once and make sure their state exists
+     */
+    private async loadForwardedIds(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+
+        const state = await this.adapter.getStateAsync(this.forwardedIdsStateId);
+        if (typeof state?.val === 'string') {
+            try {
+                const parsed: unknown = JSON.parse(state.val);
+                if (Array.isArray(parsed)) {
+                    this.forwardedIds = parsed.filter((id): id is string => typeof id === 'string');
+                }
+            } catch {
+                this.adapter.log.debug('Ignoring invalid list of forwarded notification IDs');
+            }
+        }
+
+        await this.stateManager.writeState(
+            this.forwardedIdsStateId,
+            { type: 'string', role: 'json' },
+            JSON.stringify(this.forwardedIds),
+        );
+        this.loaded = true;
+    }
+
+    /**
+     * Build the message shown in the ioBroker notification
+     *
+     * @param notification - Unraid notification
+     */
+    private formatMessage(notification: Record<string, unknown>): string {
+        const parts = [notification.title, notification.subject, notification.description]
+            .map(part => toStringOrNull(part)?.trim())
+            .filter((part): part is string => !!part);
+        return parts.join(' - ') || 'Unraid notification';
+    }
+
+    /**
+     * Convert error to string description
+     *
+     * @param error - Error to describe
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
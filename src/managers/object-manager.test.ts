@@ -0,0 +1,239 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { AdapterInterface } from '../types/adapter-types';
+import { DynamicResourceManager } from './dynamic-resource-manager';
+import { ObjectManager } from './object-manager';
+import { StateManager } from './state-manager';
+
+const HISTORY = { 'history.0': { enabled: true } };
+
+/**
+ * Adapter stub keeping objects and states in memory, with IDs relative to the namespace
+ *
+ * @param objects - Initial objects by relative ID
+ * @param states - Initial state values by relative ID
+ */
+function createAdapter(
+    objects: Record<string, object>,
+    states: Record<string, ioBroker.StateValue> = {},
+): {
+    adapter: AdapterInterface;
+    objects: Map<string, ioBroker.Object>;
+    states: Map<string, ioBroker.StateValue>;
+} {
+    const objectMap = new Map(Object.entries(objects).map(([id, obj]) => [id, obj as ioBroker.Object]));
+    const stateMap = new Map(Object.entries(states));
+    const relative = (id: string): string => id.replace(/^unraid\.0\./, '');
+    const adapter = {
+        namespace: 'unraid.0',
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        getObjectAsync: (id: string) => Promise.resolve(objectMap.get(relative(id)) ?? null),
+        setObjectAsync: (id: string, obj: ioBroker.Object) => {
+            objectMap.set(relative(id), structuredClone(obj));
+            return Promise.resolve();
+        },
+        extendObjectAsync: (id: string, obj: ioBroker.Object) => {
+            const existing = objectMap.get(relative(id));
+            objectMap.set(relative(id), {
+                ...existing,
+                ...structuredClone(obj),
+                common: { ...existing?.common, ...obj.common },
+            } as ioBroker.Object);
+            return Promise.resolve();
+        },
+        delObjectAsync: (id: string, options?: { recursive?: boolean }) => {
+            for (const key of [...objectMap.keys()]) {
+                if (key === relative(id) || (options?.recursive && key.startsWith(`${relative(id)}.`))) {
+                    objectMap.delete(key);
+                    stateMap.delete(key);
+                }
+            }
+            return Promise.resolve();
+        },
+        getAdapterObjectsAsync: () =>
+            Promise.resolve(Object.fromEntries([...objectMap].map(([id, obj]) => [`unraid.0.${id}`, obj]))),
+        getStateAsync: (id: string) =>
+            Promise.resolve(stateMap.has(relative(id)) ? { val: stateMap.get(relative(id)), ack: true } : null),
+        setStateAsync: (id: string, state: ioBroker.StateValue | ioBroker.SettableState) => {
+            stateMap.set(relative(id), state !== null && typeof state === 'object' ? (state.val ?? null) : state);
+            return Promise.resolve();
+        },
+    };
+    return { adapter: adapter as unknown as AdapterInterface, objects: objectMap, states: stateMap };
+}
+
+describe('ObjectManager', () => {
+    describe('migrateResource', () => {
+        /**
+         * Objects of a VM stored under the given key
+         *
+         * @param key - Key of the VM below `vms`
+         */
+        function vmObjects(key: string): Record<string, object> {
+            return {
+                [`vms.${key}`]: { type: 'channel', common: { name: 'win11' }, native: {} },
+                [`vms.${key}.state`]: {
+                    type: 'state',
+                    common: { name: 'state', type: 'string', role: 'text', read: true, write: false, custom: HISTORY },
+                    native: {},
+                },
+            };
+        }
+
+        it('moves objects, history settings and values to the new key', async () => {
+            const { adapter, objects, states } = createAdapter(vmObjects('win11'), { 'vms.win11.state': 'RUNNING' });
+            const manager = new ObjectManager(adapter, new StateManager(adapter));
+
+            expect(await manager.migrateResource('vm', 'win11', 'uuid-1')).to.equal(true);
+
+            expect([...objects.keys()]).to.deep.equal(['vms.uuid-1', 'vms.uuid-1.state']);
+            expect(objects.get('vms.uuid-1.state')?.common.custom).to.deep.equal(HISTORY);
+            expect(states.get('vms.uuid-1.state')).to.equal('RUNNING');
+        });
+
+        it('keeps both resources when the target key already exists', async () => {
+            const { adapter, objects } = createAdapter({ ...vmObjects('win11'), ...vmObjects('uuid-1') });
+            const manager = new ObjectManager(adapter, new StateManager(adapter));
+
+            expect(await manager.migrateResource('vm', 'win11', 'uuid-1')).to.equal(false);
+
+            expect(objects.size).to.equal(4);
+        });
+
+        it('does nothing without objects under the old key', async () => {
+            const { adapter, objects } = createAdapter(vmObjects('uuid-1'));
+            const manager = new ObjectManager(adapter, new StateManager(adapter));
+
+            expect(await manager.migrateResource('vm', 'win11', 'uuid-1')).to.equal(false);
+            expect(await manager.migrateResource('vm', 'uuid-1', 'uuid-1')).to.equal(false);
+
+            expect(objects.size).to.equal(2);
+        });
+    });
+
+    describe('findResourceKey', () => {
+        const objects = {
+            'docker.containers.aaaaaaaaaaaa': { type: 'channel', common: { name: 'plex' }, native: {} },
+            'docker.containers.aaaaaaaaaaaa.name': { type: 'state', common: { name: 'plex' }, native: {} },
+            'docker.containers.bbbbbbbbbbbb': { type: 'channel', common: { name: 'mqtt' }, native: {} },
+        };
+
+        it('finds the channel of a resource by its display name', async () => {
+            const { adapter } = createAdapter(objects);
+            const manager = new ObjectManager(adapter, new StateManager(adapter));
+
+            expect(await manager.findResourceKey('docker', 'plex', 'cccccccccccc')).to.equal('aaaaaaaaaaaa');
+            expect(await manager.findResourceKey('docker', 'nginx', 'cccccccccccc')).to.equal(null);
+        });
+
+        it('does not search while the channel of the current key exists', async () => {
+            const { adapter } = createAdapter(objects);
+            const manager = new ObjectManager(adapter, new StateManager(adapter));
+
+            expect(await manager.findResourceKey('docker', 'plex', 'bbbbbbbbbbbb')).to.equal(null);
+        });
+    });
+
+    describe('switching between name and ID keys', () => {
+        const selection = new Set(['docker.containers']);
+
+        /**
+         * Objects of the plex container stored under the given key, its state with history settings
+         *
+         * @param key - Key of the container below `docker.containers`
+         */
+        function containerObjects(key: string): Record<string, object> {
+            return {
+                [`docker.containers.${key}`]: { type: 'channel', common: { name: 'plex' }, native: {} },
+                [`docker.containers.${key}.state`]: {
+                    type: 'state',
+                    common: { name: 'state', type: 'string', role: 'indicator.status', custom: HISTORY },
+                    native: {},
+                },
+            };
+        }
+
+        /**
+         * Create a resource manager on the given objects
+         *
+         * @param objects - Existing objects by relative ID
+         * @param stableResourceIds - Key resources by their Unraid ID
+         */
+        function setup(
+            objects: Record<string, object>,
+            stableResourceIds: boolean,
+        ): { manager: DynamicResourceManager; objects: Map<string, ioBroker.Object> } {
+            const { adapter, objects: objectMap } = createAdapter(objects);
+            const stateManager = new StateManager(adapter);
+            const manager = new DynamicResourceManager(adapter, stateManager);
+            manager.setObjectManager(new ObjectManager(adapter, stateManager));
+            manager.setStableResourceIds(stableResourceIds);
+            return { manager, objects: objectMap };
+        }
+
+        /**
+         * Poll the plex container with the given Docker ID
+         *
+         * @param manager - Resource manager to feed
+         * @param dockerId - Docker ID of the container
+         */
+        async function poll(manager: DynamicResourceManager, dockerId: string): Promise<void> {
+            await manager.handleDynamicDockerContainers(
+                { docker: { containers: [{ id: `SERVER:${dockerId}`, names: ['/plex'], state: 'RUNNING' }] } },
+                selection,
+            );
+        }
+
+        /**
+         * Keys below `docker.containers` with objects
+         *
+         * @param objects - Objects by relative ID
+         */
+        function containerKeys(objects: Map<string, ioBroker.Object>): string[] {
+            return [...objects.keys()]
+                .filter(id => /^docker\.containers\.[^.]+$/.test(id) && objects.get(id)?.type === 'channel')
+                .map(id => id.split('.')[2]);
+        }
+
+        it('moves a container keyed by name to its ID', async () => {
+            const { manager, objects } = setup(containerObjects('plex'), true);
+
+            await poll(manager, 'aaaaaaaaaaaa1111');
+
+            expect(containerKeys(objects)).to.deep.equal(['aaaaaaaaaaaa']);
+            expect(objects.get('docker.containers.aaaaaaaaaaaa')?.common.name).to.equal('plex');
+            expect(objects.get('docker.containers.aaaaaaaaaaaa.state')?.common.custom).to.deep.equal(HISTORY);
+        });
+
+        it('moves a container keyed by ID back to its name', async () => {
+            const { manager, objects } = setup(containerObjects('aaaaaaaaaaaa'), false);
+
+            await poll(manager, 'aaaaaaaaaaaa1111');
+
+            expect(containerKeys(objects)).to.deep.equal(['plex']);
+            expect(objects.get('docker.containers.plex.state')?.common.custom).to.deep.equal(HISTORY);
+        });
+
+        it('keeps the objects of a container recreated with a new ID', async () => {
+            const { manager, objects } = setup(containerObjects('aaaaaaaaaaaa'), true);
+
+            await poll(manager, 'aaaaaaaaaaaa1111');
+            await poll(manager, 'bbbbbbbbbbbb2222');
+
+            expect(containerKeys(objects)).to.deep.equal(['bbbbbbbbbbbb']);
+            expect(objects.get('docker.containers.bbbbbbbbbbbb.state')?.common.custom).to.deep.equal(HISTORY);
+            expect(objects.get('docker.containers.bbbbbbbbbbbb.commands.start')?.native.resourceId).to.equal(
+                'SERVER:bbbbbbbbbbbb2222',
+            );
+        });
+
+        it('finds a container recreated while the adapter was stopped by its channel name', async () => {
+            const { manager, objects } = setup(containerObjects('aaaaaaaaaaaa'), true);
+
+            await poll(manager, 'bbbbbbbbbbbb2222');
+
+            expect(containerKeys(objects)).to.deep.equal(['bbbbbbbbbbbb']);
+            expect(objects.get('docker.containers.bbbbbbbbbbbb.state')?.common.custom).to.deep.equal(HISTORY);
+        });
+    });
+});
@@ -1,13 +1,20 @@
 import type { AdapterInterface } from '../types/adapter-types';
 import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
+import { DOMAIN_ERRORS_CHANNEL, getDomainErrorStateId } from '../shared/unraid-domains';
 import type { StateManager } from './state-manager';
 
+/**
+ * Objects that belong to no domain and are never cleaned up:
+ * instance objects from io-package.json and the permission report
+ */
+const INSTANCE_OBJECT_IDS: ReadonlySet<string> = new Set(['info', 'info.connection', 'info.permissions']);
+
 interface TrackedObject {
     id: string;
     type: 'channel' | 'state';
     lastSeen: number;
     isStatic: boolean;
-    resourceType?: 'cpu' | 'disk' | 'docker' | 'share' | 'vm';
+    resourceType?: 'cpu' | 'disk' | 'hardwareDisk' | 'docker' | 'dockerNetwork' | 'share' | 'vm' | 'ups';
     resourceId?: string;
 }
 
@@ -19,6 +26,7 @@ export class ObjectManager {
     private trackedObjects = new Map<string, TrackedObject>();
     private currentPollTimestamp = 0;
     private staticObjectIds = new Set<string>();
+    private stableResourceIds = false;
 
     /**
      * Create a new ObjectManager
@@ -35,9 +43,11 @@ export class ObjectManager {
      * Initialize object tracking with static definitions
      *
      * @param definitions - Domain definitions to initialize with
+     * @param stableResourceIds - Containers, VMs and shares are keyed by ID, their channels keep the display name
      */
-    async initialize(definitions: readonly DomainDefinition[]): Promise<void> {
+    async initialize(definitions: readonly DomainDefinition[], stableResourceIds = false): Promise<void> {
         this.staticObjectIds = this.collectStaticObjectIds(definitions);
+        this.stableResourceIds = stableResourceIds;
         this.currentPollTimestamp = Date.now();
 
         // Track all existing objects
@@ -85,7 +95,7 @@ export class ObjectManager {
      * @param currentResources - Map of current resources found in poll
      */
     async handleDynamicResources(
-        resourceType: 'cpu' | 'disk' | 'docker' | 'share' | 'vm',
+        resourceType: 'cpu' | 'disk' | 'hardwareDisk' | 'docker' | 'dockerNetwork' | 'share' | 'vm' | 'ups',
         currentResources: Map<string, any>,
     ): Promise<void> {
         const resourcePrefix = this.getResourcePrefix(resourceType);
@@ -138,10 +148,21 @@ export class ObjectManager {
     async cleanupUnselectedDomains(selectedDomains: Set<DomainId>): Promise<void> {
         const objects = await this.adapter.getAdapterObjectsAsync();
         const allowedPrefixes = this.getAllowedPrefixes(selectedDomains);
+        const errorStateIds = new Set([...selectedDomains].map(domain => getDomainErrorStateId(domain)));
 
         for (const fullId of Object.keys(objects)) {
             const relativeId = this.getRelativeId(fullId);
-            if (!relativeId) {
+            if (!relativeId || INSTANCE_OBJECT_IDS.has(relativeId)) {
+                continue;
+            }
+
+            // Error states are kept for selected domains only
+            if (relativeId === DOMAIN_ERRORS_CHANNEL || relativeId.startsWith(`${DOMAIN_ERRORS_CHANNEL}.`)) {
+                const keep =
+                    relativeId === DOMAIN_ERRORS_CHANNEL ? errorStateIds.size > 0 : errorStateIds.has(relativeId);
+                if (!keep) {
+                    await this.removeUnselectedObject(relativeId);
+                }
                 continue;
             }
 
@@ -155,15 +176,129 @@ export class ObjectManager {
             }
 
             if (!shouldKeep) {
-                try {
-                    await this.adapter.delObjectAsync(relativeId, { recursive: true });
-                    this.trackedObjects.delete(relativeId);
-                    this.adapter.log.debug(`Removed object from unselected domain: ${relativeId}`);
-                } catch (error) {
-                    this.adapter.log.warn(`Failed to remove object ${relativeId}: ${this.describeError(error)}`);
+                await this.removeUnselectedObject(relativeId);
+            }
+        }
+    }
+
+    private async removeUnselectedObject(relativeId: string): Promise<void> {
+        try {
+            await this.adapter.delObjectAsync(relativeId, { recursive: true });
+            this.trackedObjects.delete(relativeId);
+            this.adapter.log.debug(`Removed object from unselected domain: ${relativeId}`);
+        } catch (error) {
+            this.adapter.log.warn(`Failed to remove object ${relativeId}: ${this.describeError(error)}`);
+        }
+    }
+
+    /**
+     * Remove the objects of a resource that is no longer mirrored, e.g. excluded by a resource filter
+     *
+     * @param resourceType - The type of the resource
+     * @param resourceId - Key of the resource below its type prefix
+     */
+    async removeResource(resourceType: 'docker' | 'share' | 'vm' | 'hardwareDisk', resourceId: string): Promise<void> {
+        const objectPrefix = `${this.getResourcePrefix(resourceType)}.${resourceId}`;
+        if (!(await this.adapter.getObjectAsync(objectPrefix))) {
+            return;
+        }
+
+        try {
+            await this.adapter.delObjectAsync(objectPrefix, { recursive: true });
+            for (const id of [...this.trackedObjects.keys()]) {
+                if (id === objectPrefix || id.startsWith(`${objectPrefix}.`)) {
+                    this.trackedObjects.delete(id);
+                }
+            }
+            this.adapter.log.info(`Resource ${resourceType}/${resourceId} is excluded by the filter, removed objects`);
+        } catch (error) {
+            this.adapter.log.warn(`Failed to remove objects for ${objectPrefix}: ${this.describeError(error)}`);
+        }
+    }
+
+    /**
+     * Move the objects of a resource to a new key, e.g. after switching between name and ID keys.
+     * Object settings like history configuration (`common.custom`) and the current values are kept.
+     *
+     * @param resourceType - The type of the resource
+     * @param fromKey - Key the objects are stored under
+     * @param toKey - New key of the resource
+     * @returns True if objects were moved
+     */
+    async migrateResource(resourceType: 'docker' | 'share' | 'vm', fromKey: string, toKey: string): Promise<boolean> {
+        const resourcePrefix = this.getResourcePrefix(resourceType);
+        const fromPrefix = `${resourcePrefix}.${fromKey}`;
+        const toPrefix = `${resourcePrefix}.${toKey}`;
+        if (fromKey === toKey || !(await this.adapter.getObjectAsync(fromPrefix))) {
+            return false;
+        }
+        if (await this.adapter.getObjectAsync(toPrefix)) {
+            this.adapter.log.warn(`Cannot move ${fromPrefix} to ${toPrefix}, the target already exists`);
+            return false;
+        }
+
+        const objects = await this.adapter.getAdapterObjectsAsync();
+        const relativeIds = Object.keys(objects)
+            .map(fullId => this.getRelativeId(fullId))
+            .filter((id): id is string => !!id && (id === fromPrefix || id.startsWith(`${fromPrefix}.`)))
+            .sort((a, b) => a.length - b.length);
+
+        try {
+            for (const relativeId of relativeIds) {
+                const obj = objects[`${this.adapter.namespace}.${relativeId}`];
+                const targetId = `${toPrefix}${relativeId.slice(fromPrefix.length)}`;
+                await this.adapter.setObjectAsync(targetId, {
+                    type: obj.type,
+                    common: obj.common,
+                    native: obj.native,
+                } as ioBroker.SettableObject);
+
+                if (obj.type === 'state') {
+                    const state = await this.adapter.getStateAsync(relativeId);
+                    if (state) {
+                        await this.adapter.setStateAsync(targetId, { val: state.val, ack: state.ack, q: state.q });
+                    }
                 }
+                this.trackedObjects.delete(relativeId);
+            }
+
+            await this.adapter.delObjectAsync(fromPrefix, { recursive: true });
+            this.adapter.log.info(`Moved ${relativeIds.length} objects from ${fromPrefix} to ${toPrefix}`);
+            return true;
+        } catch (error) {
+            this.adapter.log.warn(`Failed to move ${fromPrefix} to ${toPrefix}: ${this.describeError(error)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Find the key of a resource by the display name of its channel, e.g. of a container Unraid recreated with a new ID.
+     * Only channels keyed by ID carry the display name.
+     *
+     * @param resourceType - The type of the resource
+     * @param name - Display name of the resource
+     * @param key - Current key of the resource, nothing is searched if its channel exists
+     * @returns Key of another channel with the display name, null if there is none
+     */
+    async findResourceKey(resourceType: 'docker' | 'share' | 'vm', name: string, key: string): Promise<string | null> {
+        const resourcePrefix = this.getResourcePrefix(resourceType);
+        if (await this.adapter.getObjectAsync(`${resourcePrefix}.${key}`)) {
+            return null;
+        }
+
+        const objects = await this.adapter.getAdapterObjectsAsync();
+        for (const [fullId, obj] of Object.entries(objects)) {
+            const relativeId = this.getRelativeId(fullId);
+            if (!relativeId?.startsWith(`${resourcePrefix}.`) || obj.type !== 'channel' || obj.common?.name !== name) {
+                continue;
+            }
+
+            const resourceKey = relativeId.slice(resourcePrefix.length + 1);
+            if (resourceKey !== key && !resourceKey.includes('.')) {
+                return resourceKey;
             }
         }
+        return null;
     }
 
     /**
@@ -232,11 +367,24 @@ export class ObjectManager {
             const parts = relativeId.split('.');
             let newName: string | null = null;
 
+            // Channels keyed by ID carry the display name, set by the DynamicResourceManager
+            const keyedById =
+                this.stableResourceIds &&
+                ((relativeId.startsWith('docker.containers.') && parts.length === 3) ||
+                    (relativeId.startsWith('shares.') && parts.length === 2) ||
+                    (relativeId.startsWith('vms.') && parts.length === 2));
+
             // Determine the correct name for dynamic resource channels
-            if (relativeId.startsWith('docker.containers.') && parts.length === 3) {
+            if (keyedById) {
+                continue;
+            } else if (relativeId.startsWith('docker.containers.') && parts.length === 3) {
                 // Extract the container name
                 newName = parts[2];
                 checkedCount++;
+            } else if (relativeId.startsWith('docker.networks.') && parts.length === 3) {
+                // Extract the network name
+                newName = parts[2];
+                checkedCount++;
             } else if (relativeId.startsWith('shares.') && parts.length === 2) {
                 // Extract the share name
                 newName = parts[1];
@@ -245,6 +393,14 @@ export class ObjectManager {
                 // Extract the VM name
                 newName = parts[1];
                 checkedCount++;
+            } else if (relativeId.startsWith('ups.') && parts.length === 2) {
+                // Extract the UPS name
+                newName = parts[1];
+                checkedCount++;
+            } else if (relativeId.startsWith('hardware.disks.') && parts.length === 3) {
+                // Extract the serial number
+                newName = parts[2];
+                checkedCount++;
             } else if (relativeId.startsWith('array.disks.') && parts.length === 3) {
                 newName = `Disk ${parts[2]}`;
                 checkedCount++;
@@ -292,18 +448,26 @@ export class ObjectManager {
         return null;
     }
 
-    private getResourcePrefix(resourceType: 'cpu' | 'disk' | 'docker' | 'share' | 'vm'): string {
+    private getResourcePrefix(
+        resourceType: 'cpu' | 'disk' | 'hardwareDisk' | 'docker' | 'dockerNetwork' | 'share' | 'vm' | 'ups',
+    ): string {
         switch (resourceType) {
             case 'cpu':
                 return 'metrics.cpu.cores';
             case 'disk':
                 return 'array.disks';
+            case 'hardwareDisk':
+                return 'hardware.disks';
             case 'docker':
                 return 'docker.containers';
+            case 'dockerNetwork':
+                return 'docker.networks';
             case 'share':
                 return 'shares';
             case 'vm':
                 return 'vms';
+            case 'ups':
+                return 'ups';
         }
     }
 
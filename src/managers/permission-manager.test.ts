@@ -0,0 +1,103 @@
+import { expect } from 'chai';
+import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
+import { domainDefinitionById } from '../shared/unraid-domains';
+import { evaluateAccess, grantPermissions } from './permission-manager';
+
+/**
+ * Granted actions per resource built from permission entries
+ *
+ * @param entries - Permission entries as returned by the Unraid API
+ */
+function granted(...entries: { resource: unknown; actions: unknown }[]): Map<string, Set<string>> {
+    const result = new Map<string, Set<string>>();
+    grantPermissions(result, entries);
+    return result;
+}
+
+/**
+ * Definitions of the given domains
+ *
+ * @param ids - Domain IDs
+ */
+function definitions(...ids: DomainId[]): DomainDefinition[] {
+    return ids.map(id => domainDefinitionById.get(id)!);
+}
+
+describe('grantPermissions', () => {
+    it('normalizes resources and actions of older API versions', () => {
+        const result = granted({ resource: 'docker', actions: ['read:any', 'UPDATE_ANY'] });
+
+        expect([...result.get('DOCKER')!]).to.deep.equal(['READ_ANY', 'UPDATE_ANY']);
+    });
+
+    it('merges entries of the same resource and skips malformed ones', () => {
+        const result = granted(
+            { resource: 'VMS', actions: ['READ_ANY'] },
+            { resource: 'VMS', actions: ['UPDATE_ANY', 42] },
+            { resource: null, actions: ['READ_ANY'] },
+            { resource: 'ARRAY', actions: 'READ_ANY' },
+        );
+
+        expect([...result.keys()]).to.deep.equal(['VMS']);
+        expect([...result.get('VMS')!]).to.deep.equal(['READ_ANY', 'UPDATE_ANY']);
+    });
+});
+
+describe('evaluateAccess', () => {
+    const selection = definitions('info.os', 'docker.containers', 'vms.list');
+    const selectedDomains = new Set<string>(selection.map(definition => definition.id));
+
+    it('grants everything to an admin', () => {
+        const result = evaluateAccess(granted({ resource: '*', actions: ['*'] }), selection, selectedDomains);
+
+        expect(result.deniedDomains.size).to.equal(0);
+        expect(result.deniedCommands.size).to.equal(0);
+        expect(result.commands).to.deep.equal({ docker: true, vm: true });
+        expect(result.missingRole).to.equal(null);
+    });
+
+    it('denies the commands of a viewer and asks for the admin role', () => {
+        const result = evaluateAccess(granted({ resource: '*', actions: ['READ_ANY'] }), selection, selectedDomains);
+
+        expect(result.deniedDomains.size).to.equal(0);
+        expect([...result.deniedCommands]).to.deep.equal(['docker', 'vm']);
+        expect(result.missing).to.deep.equal(['UPDATE_ANY on DOCKER', 'UPDATE_ANY on VMS']);
+        expect(result.missingRole).to.equal('ADMIN');
+    });
+
+    it('denies domains whose query roots may not be read', () => {
+        const result = evaluateAccess(
+            granted(
+                { resource: 'INFO', actions: ['READ_ANY'] },
+                { resource: 'DOCKER', actions: ['READ_ANY', 'UPDATE_ANY'] },
+            ),
+            definitions('info.os', 'docker.containers', 'vms.list'),
+            new Set(['info.os', 'docker.containers']),
+        );
+
+        expect([...result.deniedDomains]).to.deep.equal([['vms.list', 'Missing permission READ_ANY on VMS']]);
+        expect(result.domains).to.deep.equal({ 'info.os': true, 'docker.containers': true, 'vms.list': false });
+        expect(result.commands).to.deep.equal({ docker: true });
+        expect(result.missingRole).to.equal('VIEWER');
+    });
+
+    it('only checks commands of selected domains', () => {
+        const result = evaluateAccess(granted(), definitions('info.os'), new Set(['info.os']));
+
+        expect(result.commands).to.deep.equal({});
+        expect(result.deniedCommands.size).to.equal(0);
+        expect([...result.deniedDomains.keys()]).to.deep.equal(['info.os']);
+    });
+
+    it('never denies the notification commands, their mutations declare no permission', () => {
+        const result = evaluateAccess(
+            granted({ resource: '*', actions: ['READ_ANY'] }),
+            definitions('notifications.overview'),
+            new Set(['notifications.overview']),
+        );
+
+        expect(result.commands).to.deep.equal({});
+        expect(result.deniedCommands.size).to.equal(0);
+        expect(result.missingRole).to.equal(null);
+    });
+});
@@ -0,0 +1,308 @@
+import type { AdapterInterface } from '../types/adapter-types';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { StateManager } from './state-manager';
+import { API_KEY_PERMISSIONS_QUERY } from '../graphql/queries';
+import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
+
+/**
+ * Resource and action an operation requires, as listed in the Unraid API schema
+ */
+interface RequiredPermission {
+    resource: string;
+    action: string;
+}
+
+/**
+ * Permission needed to read each query root. Roots without an entry are not protected.
+ */
+const READ_PERMISSIONS: Readonly<Record<string, RequiredPermission>> = {
+    array: { resource: 'ARRAY', action: 'READ_ANY' },
+    parityHistory: { resource: 'ARRAY', action: 'READ_ANY' },
+    disks: { resource: 'DISK', action: 'READ_ANY' },
+    docker: { resource: 'DOCKER', action: 'READ_ANY' },
+    info: { resource: 'INFO', action: 'READ_ANY' },
+    metrics: { resource: 'INFO', action: 'READ_ANY' },
+    notifications: { resource: 'NOTIFICATIONS', action: 'READ_ANY' },
+    server: { resource: 'SERVERS', action: 'READ_ANY' },
+    shares: { resource: 'SHARE', action: 'READ_ANY' },
+    vms: { resource: 'VMS', action: 'READ_ANY' },
+};
+
+/**
+ * Permission needed to execute the commands of each resource type, with the domain providing the commands.
+ * The notification mutations declare no permission in the schema, so their commands are never denied.
+ */
+const COMMAND_PERMISSIONS: Readonly<Record<string, RequiredPermission & { domain: DomainId }>> = {
+    docker: { domain: 'docker.containers', resource: 'DOCKER', action: 'UPDATE_ANY' },
+    vm: { domain: 'vms.list', resource: 'VMS', action: 'UPDATE_ANY' },
+    array: { domain: 'array.status', resource: 'ARRAY', action: 'UPDATE_ANY' },
+    parity: { domain: 'array.parity', resource: 'ARRAY', action: 'UPDATE_ANY' },
+};
+
+/**
+ * Built-in Unraid roles, used when the server does not resolve the permissions of a role.
+ * `*` grants every resource or action.
+ */
+const ROLE_PERMISSIONS: Readonly<Record<string, readonly RequiredPermission[]>> = {
+    ADMIN: [{ resource: '*', action: '*' }],
+    CONNECT: [{ resource: '*', action: 'READ_ANY' }],
+    VIEWER: [{ resource: '*', action: 'READ_ANY' }],
+    GUEST: [{ resource: 'ME', action: 'READ_ANY' }],
+};
+
+/**
+ * Result of the permission check of an API key
+ */
+export interface AccessReport {
+    /** Selected domains the key may not read, with the missing permission */
+    deniedDomains: Map<DomainId, string>;
+    /** Resource types whose commands the key may not execute */
+    deniedCommands: Set<string>;
+}
+
+/**
+ * Permission entry as returned by the Unraid API
+ */
+interface PermissionEntry {
+    resource?: unknown;
+    actions?: unknown;
+}
+
+/**
+ * Outcome of evaluating the granted permissions, as written to the report state
+ */
+export interface AccessEvaluation extends AccessReport {
+    /** Readability per selected domain */
+    domains: Record<string, boolean>;
+    /** Executability per command resource type of the selection */
+    commands: Record<string, boolean>;
+    /** Descriptions of the missing permissions */
+    missing: string[];
+    /** Role that would grant the missing permissions, null if nothing is missing */
+    missingRole: string | null;
+}
+
+/**
+ * Add permission entries to the granted actions per resource.
+ * Actions are normalized, older API versions report them as `read:any`.
+ *
+ * @param granted - Granted actions per resource
+ * @param entries - Permission entries to add
+ */
+export function grantPermissions(granted: Map<string, Set<string>>, entries: readonly PermissionEntry[]): void {
+    for (const entry of entries) {
+        if (typeof entry?.resource !== 'string' || !Array.isArray(entry.actions)) {
+            continue;
+        }
+
+        const resource = entry.resource.toUpperCase();
+        const actions = granted.get(resource) ?? new Set<string>();
+        for (const action of entry.actions) {
+            if (typeof action === 'string') {
+                actions.add(action.toUpperCase().replace(/:/g, '_'));
+            }
+        }
+        granted.set(resource, actions);
+    }
+}
+
+/**
+ * Find the selected domains and commands the granted permissions do not cover
+ *
+ * @param granted - Granted actions per resource, `*` grants every resource or action
+ * @param definitions - Domain definitions of the selection
+ * @param selectedDomains - Set of selected domain IDs
+ */
+export function evaluateAccess(
+    granted: ReadonlyMap<string, ReadonlySet<string>>,
+    definitions: readonly DomainDefinition[],
+    selectedDomains: ReadonlySet<string>,
+): AccessEvaluation {
+    const isGranted = ({ resource, action }: RequiredPermission): boolean => {
+        const actions = new Set([...(granted.get(resource) ?? []), ...(granted.get('*') ?? [])]);
+        return actions.has(action) || actions.has('*');
+    };
+
+    const deniedDomains = new Map<DomainId, string>();
+    const deniedCommands = new Set<string>();
+    const missing = new Set<string>();
+
+    const domains: Record<string, boolean> = {};
+    for (const definition of definitions) {
+        const denied = definition.selection
+            .map(selection => READ_PERMISSIONS[selection.root])
+            .find(permission => permission && !isGranted(permission));
+        domains[definition.id] = !denied;
+        if (denied) {
+            const description = describePermission(denied);
+            deniedDomains.set(definition.id, `Missing permission ${description}`);
+            missing.add(description);
+        }
+    }
+
+    const commands: Record<string, boolean> = {};
+    for (const [resourceType, permission] of Object.entries(COMMAND_PERMISSIONS)) {
+        if (!selectedDomains.has(permission.domain)) {
+            continue;
+        }
+        commands[resourceType] = isGranted(permission);
+        if (!commands[resourceType]) {
+            deniedCommands.add(resourceType);
+            missing.add(describePermission(permission));
+        }
+    }
+
+    // Reading only needs a viewer, commands need an admin
+    let missingRole: string | null = null;
+    if (deniedCommands.size) {
+        missingRole = 'ADMIN';
+    } else if (deniedDomains.size) {
+        missingRole = 'VIEWER';
+    }
+
+    return { deniedDomains, deniedCommands, domains, commands, missing: [...missing], missingRole };
+}
+
+/**
+ * Describe a permission for log messages and error states
+ *
+ * @param permission - Required permission
+ */
+function describePermission(permission: RequiredPermission): string {
+    return `${permission.action} on ${permission.resource}`;
+}
+
+/**
+ * Checks which selected domains and commands the configured API key may use
+ * and reports the result in `info.permissions`.
+ */
+export class PermissionManager {
+    /** State holding the permission report */
+    private readonly reportStateId = 'info.permissions';
+
+    /**
+     * Create a new permission manager
+     *
+     * @param adapter - Adapter interface for logging
+     * @param apolloClient - Apollo client for reading the key permissions
+     * @param stateManager - State manager for the report state
+     */
+    constructor(
+        private readonly adapter: AdapterInterface,
+        private readonly apolloClient: UnraidApolloClient,
+        private readonly stateManager: StateManager,
+    ) {}
+
+    /**
+     * Check the API key against the selected domains and their commands
+     *
+     * @param definitions - Domain definitions of the selection
+     * @param selectedDomains - Set of selected domain IDs
+     * @returns Denied domains and commands, null if the permissions of the key are unknown
+     */
+    async check(definitions: readonly DomainDefinition[], selectedDomains: Set<string>): Promise<AccessReport | null> {
+        let roles: string[];
+        let granted: Map<string, Set<string>>;
+        try {
+            ({ roles, granted } = await this.loadPermissions());
+        } catch (error) {
+            const message = this.describeError(error);
+            this.adapter.log.info(`Could not read the permissions of the API key, assuming full access: ${message}`);
+            await this.writeReport({ roles: null, error: message });
+            return null;
+        }
+
+        const { deniedDomains, deniedCommands, domains, commands, missing, missingRole } = evaluateAccess(
+            granted,
+            definitions,
+            selectedDomains,
+        );
+
+        if (missingRole) {
+            const unavailable = [...deniedDomains.keys(), ...[...deniedCommands].map(type => `${type} commands`)];
+            this.adapter.log.warn(
+                `API key lacks ${missing.join(', ')}, unavailable: ${unavailable.join(', ')}. ` +
+                    `Assign the role ${missingRole} to the key in Unraid to use them.`,
+            );
+        } else {
+            this.adapter.log.debug('API key grants access to all selected domains and commands');
+        }
+
+        await this.writeReport({ roles, domains, commands, missing, missingRole });
+        return { deniedDomains, deniedCommands };
+    }
+
+    /**
+     * Read the roles and explicit permissions of the API key and resolve the permissions of its roles
+     */
+    private async loadPermissions(): Promise<{ roles: string[]; granted: Map<string, Set<string>> }> {
+        const result = await this.apolloClient.query<{ me?: { roles?: unknown; permissions?: unknown } }>(
+            API_KEY_PERMISSIONS_QUERY,
+        );
+        if (!result?.me) {
+            throw new Error('No account information returned');
+        }
+
+        const roles = Array.isArray(result.me.roles)
+            ? result.me.roles.filter((role): role is string => typeof role === 'string').map(role => role.toUpperCase())
+            : [];
+
+        const granted = new Map<string, Set<string>>();
+        grantPermissions(granted, Array.isArray(result.me.permissions) ? result.me.permissions : []);
+        grantPermissions(granted, await this.loadRolePermissions(roles));
+        return { roles, granted };
+    }
+
+    /**
+     * Resolve the permissions of roles on the server, falling back to the built-in roles
+     *
+     * @param roles - Role names of the API key
+     */
+    private async loadRolePermissions(roles: string[]): Promise<readonly PermissionEntry[]> {
+        // Role names are inlined into the query, so only enum-like names are accepted
+        const validRoles = roles.filter(role => /^[A-Z_]+$/.test(role));
+        if (!validRoles.length) {
+            return [];
+        }
+
+        try {
+            const result = await this.apolloClient.query<{ getPermissionsForRoles?: unknown }>(
+                `query RolePermissions { getPermissionsForRoles(roles: [${validRoles.join(', ')}]) { resource actions } }`,
+            );
+            if (Array.isArray(result?.getPermissionsForRoles)) {
+                return result.getPermissionsForRoles as PermissionEntry[];
+            }
+        } catch (error) {
+            this.adapter.log.debug(`Using built-in role permissions: ${this.describeError(error)}`);
+        }
+
+        return validRoles.flatMap(role =>
+            (ROLE_PERMISSIONS[role] ?? []).map(({ resource, action }) => ({ resource, actions: [action] })),
+        );
+    }
+
+    /**
+     * Write the permission report state
+     *
+     * @param report - Report contents
+     */
+    private async writeReport(report: Record<string, unknown>): Promise<void> {
+        await this.stateManager.writeState(
+            this.reportStateId,
+            { type: 'string', role: 'json' },
+            JSON.stringify(report),
+        );
+    }
+
+    /**
+     * Convert error to string description
+     *
+     * @param error - Error to describe
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
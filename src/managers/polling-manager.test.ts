@@ -0,0 +1,209 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
+import { getDomainErrorStateId } from '../shared/unraid-domains';
+import type { AdapterInterface } from '../types/adapter-types';
+import {
+    assignErrorsToDomains,
+    getAuthErrorStatus,
+    getOfflineBackoffMs,
+    isConnectionError,
+    PollingManager,
+} from './polling-manager';
+
+/**
+ * Domain definition selecting a single field of a query root
+ *
+ * @param id - Domain ID
+ * @param root - Query root
+ * @param field - Field selected from the root
+ */
+function definition(id: DomainId, root: string, field: string): DomainDefinition {
+    return { id, selection: [{ root, fields: [{ name: field }] }], states: [] };
+}
+
+describe('getOfflineBackoffMs', () => {
+    it('doubles the polling interval with every failed poll', () => {
+        expect(getOfflineBackoffMs(10000, 1)).to.equal(20000);
+        expect(getOfflineBackoffMs(10000, 2)).to.equal(40000);
+        expect(getOfflineBackoffMs(10000, 4)).to.equal(160000);
+    });
+
+    it('caps the delay at five minutes', () => {
+        expect(getOfflineBackoffMs(10000, 6)).to.equal(300000);
+        expect(getOfflineBackoffMs(1000, 1000)).to.equal(300000);
+    });
+
+    it('keeps polling intervals longer than the cap', () => {
+        expect(getOfflineBackoffMs(600000, 3)).to.equal(600000);
+    });
+});
+
+describe('assignErrorsToDomains', () => {
+    const containers = definition('docker.containers', 'docker', 'containers');
+    const updates = definition('docker.updatesAvailable', 'docker', 'containerUpdateStatuses');
+    const vms = definition('vms.list', 'vms', 'domains');
+    const definitions = [containers, updates, vms];
+
+    it('assigns an error to the domains selecting its root and field', () => {
+        const errors = assignErrorsToDomains(
+            [{ message: 'Cannot query update statuses', path: ['docker', 'containerUpdateStatuses'] }],
+            definitions,
+        );
+
+        expect([...errors]).to.deep.equal([['docker.updatesAvailable', 'Cannot query update statuses']]);
+    });
+
+    it('assigns an error of a whole root to all domains below it', () => {
+        const errors = assignErrorsToDomains([{ message: 'Docker is not running', path: ['docker'] }], definitions);
+
+        expect([...errors.keys()]).to.deep.equal(['docker.containers', 'docker.updatesAvailable']);
+    });
+
+    it('assigns errors without a matching path to all queried domains', () => {
+        const errors = assignErrorsToDomains(
+            [{ message: 'Internal error' }, { message: 'Unknown', path: ['array', 'disks'] }],
+            [containers, vms],
+        );
+
+        expect(errors.get('docker.containers')).to.equal('Internal error; Unknown');
+        expect(errors.get('vms.list')).to.equal('Internal error; Unknown');
+    });
+
+    it('joins different messages of a domain once', () => {
+        const errors = assignErrorsToDomains(
+            [
+                { message: 'VM 1 failed', path: ['vms', 'domains', 0] },
+                { message: 'VM 2 failed', path: ['vms', 'domains', 1] },
+                { message: 'VM 1 failed', path: ['vms', 'domains', 2] },
+            ],
+            definitions,
+        );
+
+        expect([...errors]).to.deep.equal([['vms.list', 'VM 1 failed; VM 2 failed']]);
+    });
+});
+
+describe('isConnectionError', () => {
+    it('treats network failures and server errors as unreachable', () => {
+        expect(isConnectionError({ networkError: new Error('connect ECONNREFUSED') })).to.equal(true);
+        expect(isConnectionError({ networkError: { statusCode: 502 } })).to.equal(true);
+        expect(isConnectionError(new Error('fetch failed'))).to.equal(true);
+    });
+
+    it('treats GraphQL errors and rejected queries as reachable', () => {
+        expect(isConnectionError({ graphQLErrors: [{ message: 'Cannot query field' }] })).to.equal(false);
+        expect(isConnectionError({ networkError: { statusCode: 400 } })).to.equal(false);
+    });
+
+    it('treats rejected API keys as connection errors and reports their status', () => {
+        for (const statusCode of [401, 403]) {
+            const error = { networkError: { statusCode } };
+            expect(isConnectionError(error)).to.equal(true);
+            expect(getAuthErrorStatus(error)).to.equal(statusCode);
+        }
+        expect(getAuthErrorStatus({ networkError: { statusCode: 500 } })).to.equal(null);
+    });
+});
+
+describe('PollingManager', () => {
+    const containers = definition('docker.containers', 'docker', 'containers');
+    let clock: sinon.SinonFakeTimers;
+    let manager: PollingManager | undefined;
+
+    /**
+     * Create a polling manager recording written states and connection changes
+     *
+     * @param queryPartial - Query stub of the Apollo client
+     */
+    function setup(queryPartial: sinon.SinonStub): {
+        states: Map<string, ioBroker.StateValue>;
+        connection: boolean[];
+        onData: sinon.SinonStub;
+    } {
+        const states = new Map<string, ioBroker.StateValue>();
+        const connection: boolean[] = [];
+        const onData = sinon.stub().resolves();
+        const adapter = {
+            log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+            setStateAsync: (id: string, value: ioBroker.StateValue) => {
+                states.set(id, value);
+                return Promise.resolve();
+            },
+            setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+            clearTimeout: (timer: NodeJS.Timeout | undefined) => clearTimeout(timer),
+        };
+        manager = new PollingManager(
+            adapter as unknown as AdapterInterface,
+            { queryPartial } as unknown as UnraidApolloClient,
+            onData,
+            connected => {
+                connection.push(connected);
+                return Promise.resolve();
+            },
+        );
+        return { states, connection, onData };
+    }
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+    });
+
+    afterEach(() => {
+        manager?.stop();
+        manager = undefined;
+        clock.restore();
+    });
+
+    it('reports the connection as lost while the API key is rejected', async () => {
+        const { states, connection, onData } = setup(sinon.stub().rejects({ networkError: { statusCode: 401 } }));
+
+        manager?.start(60000, [containers]);
+        await clock.tickAsync(0);
+
+        expect(connection).to.deep.equal([false]);
+        expect(states.get(getDomainErrorStateId('docker.containers'))).to.match(/^API key rejected \(HTTP 401\)/);
+        expect(onData.called).to.equal(false);
+    });
+
+    it('backs off each interval group by its own failed cycles', async () => {
+        const containerPolls: number[] = [];
+        const queryPartial = sinon.stub().callsFake((query: string) => {
+            if (query.includes('containers')) {
+                containerPolls.push(Date.now());
+            }
+            return Promise.reject(new Error('connect ECONNREFUSED'));
+        });
+        setup(queryPartial);
+
+        manager?.start(
+            10000,
+            [containers, definition('vms.list', 'vms', 'domains'), definition('info.os', 'info', 'os')],
+            new Map<DomainId, number>([
+                ['vms.list', 60000],
+                ['info.os', 30000],
+            ]),
+        );
+        await clock.tickAsync(150000);
+
+        expect(containerPolls).to.deep.equal([0, 20000, 60000, 140000]);
+    });
+
+    it('replaces the running schedule when started again', async () => {
+        const vms = definition('vms.list', 'vms', 'domains');
+        const queries: string[] = [];
+        const queryPartial = sinon.stub().callsFake((query: string) => {
+            queries.push(query.includes('containers') ? 'containers' : 'vms');
+            return Promise.resolve({ data: {}, errors: [] });
+        });
+        setup(queryPartial);
+
+        manager?.start(10000, [containers]);
+        await clock.tickAsync(5000);
+        manager?.start(10000, [vms]);
+        await clock.tickAsync(25000);
+
+        expect(queries).to.deep.equal(['containers', 'vms', 'vms', 'vms']);
+    });
+});
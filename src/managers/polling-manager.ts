@@ -1,64 +1,214 @@
 import type { AdapterInterface } from '../types/adapter-types';
-import type { UnraidApolloClient } from '../apollo-client';
-import type { DomainDefinition } from '../shared/unraid-domains';
+import type { PartialQueryResult, UnraidApolloClient } from '../apollo-client';
+import type { GraphQLFormattedError } from 'graphql';
+import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
+import { getDomainErrorStateId } from '../shared/unraid-domains';
 import { GraphQLSelectionBuilder } from '../graphql/selection-builder';
 
+/** Upper bound of the polling delay while the server is unreachable (milliseconds) */
+const MAX_OFFLINE_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Delay of the next poll while the server is unreachable.
+ * Doubles with every failed poll up to five minutes, longer polling intervals are kept.
+ *
+ * @param pollIntervalMs - Polling interval in milliseconds
+ * @param consecutiveFailures - Number of polls that failed in a row
+ * @returns Delay in milliseconds
+ */
+export function getOfflineBackoffMs(pollIntervalMs: number, consecutiveFailures: number): number {
+    return Math.min(
+        pollIntervalMs * 2 ** Math.min(consecutiveFailures, 10),
+        Math.max(pollIntervalMs, MAX_OFFLINE_BACKOFF_MS),
+    );
+}
+
+/**
+ * Assign GraphQL errors to the domains whose selection contains the failed path.
+ * Errors without a matching path affect all queried domains.
+ *
+ * @param errors - GraphQL errors of the query
+ * @param definitions - Array of domain definitions that were queried
+ * @returns Map of domain IDs to their error messages
+ */
+export function assignErrorsToDomains(
+    errors: readonly GraphQLFormattedError[],
+    definitions: readonly DomainDefinition[],
+): Map<DomainId, string> {
+    const domainErrors = new Map<DomainId, string>();
+
+    for (const error of errors) {
+        const [root, field] = error.path ?? [];
+        const affected = definitions.filter(definition =>
+            definition.selection.some(
+                selection =>
+                    selection.root === root &&
+                    (typeof field !== 'string' || selection.fields.some(spec => spec.name === field)),
+            ),
+        );
+
+        for (const definition of affected.length ? affected : definitions) {
+            const existing = domainErrors.get(definition.id);
+            if (!existing) {
+                domainErrors.set(definition.id, error.message);
+            } else if (!existing.split('; ').includes(error.message)) {
+                domainErrors.set(definition.id, `${existing}; ${error.message}`);
+            }
+        }
+    }
+
+    return domainErrors;
+}
+
+/**
+ * Check whether a query error means no data can be read from the server,
+ * because it could not be reached or rejected the API key (HTTP 401/403).
+ * GraphQL errors and rejected queries (HTTP 400) come from a working connection.
+ *
+ * @param error - Error thrown by the query
+ */
+export function isConnectionError(error: unknown): boolean {
+    const { graphQLErrors, networkError } = (error ?? {}) as {
+        graphQLErrors?: unknown[];
+        networkError?: { statusCode?: number } | null;
+    };
+    if (Array.isArray(graphQLErrors) && graphQLErrors.length > 0) {
+        return false;
+    }
+    return networkError?.statusCode !== 400;
+}
+
+/**
+ * Get the HTTP status of a query error caused by a missing or invalid API key
+ *
+ * @param error - Error thrown by the query
+ * @returns 401 or 403, null for other errors
+ */
+export function getAuthErrorStatus(error: unknown): number | null {
+    const { networkError } = (error ?? {}) as { networkError?: { statusCode?: number } | null };
+    const status = networkError?.statusCode;
+    return status === 401 || status === 403 ? status : null;
+}
+
 /**
  * Manages polling cycles and GraphQL queries
  */
 export class PollingManager {
-    private pollTimer?: ioBroker.Timeout;
+    private readonly pollTimers = new Map<number, ioBroker.Timeout>();
     private stopRequested = false;
     private currentDefinitions: readonly DomainDefinition[] = [];
+    private readonly pausedDomains = new Set<DomainId>();
+    private connected: boolean | null = null;
+    /** Failed polling cycles in a row per interval group */
+    private readonly groupFailures = new Map<number, number>();
+    private readonly domainErrors = new Map<DomainId, string>();
+    /** Incremented by every start(), cycles of an older schedule do not reschedule themselves */
+    private schedule = 0;
 
     /**
      * Create a new polling manager
      *
      * @param adapter - Adapter interface for logging and timers
      * @param apolloClient - Apollo client for GraphQL queries
-     * @param onDataReceived - Callback function when data is received
+     * @param onDataReceived - Callback function when data is received, with the definitions that were polled
+     * @param onConnectionChange - Callback function when the server becomes reachable or unreachable
      */
     constructor(
         private readonly adapter: AdapterInterface,
         private readonly apolloClient: UnraidApolloClient,
-        private readonly onDataReceived: (data: Record<string, unknown>) => Promise<void>,
+        private readonly onDataReceived: (
+            data: Record<string, unknown>,
+            definitions: readonly DomainDefinition[],
+        ) => Promise<void>,
+        private readonly onConnectionChange: (connected: boolean) => Promise<void>,
     ) {}
 
     /**
-     * Start polling with the given interval
+     * Start polling with the given interval.
+     * Domains with their own interval are polled in a separate query per interval.
+     * Starting again replaces the running schedule, e.g. when the domains to query have changed.
      *
-     * @param pollIntervalMs - Polling interval in milliseconds
+     * @param pollIntervalMs - Default polling interval in milliseconds
      * @param definitions - Array of domain definitions to poll
+     * @param domainIntervalsMs - Polling intervals in milliseconds overriding the default for single domains
      */
-    start(pollIntervalMs: number, definitions: readonly DomainDefinition[]): void {
+    start(
+        pollIntervalMs: number,
+        definitions: readonly DomainDefinition[],
+        domainIntervalsMs: ReadonlyMap<DomainId, number> = new Map(),
+    ): void {
         if (this.stopRequested) {
             return;
         }
 
+        for (const timer of this.pollTimers.values()) {
+            this.adapter.clearTimeout(timer);
+        }
+        this.pollTimers.clear();
+        this.groupFailures.clear();
         this.currentDefinitions = definitions;
+        const schedule = ++this.schedule;
+
+        for (const [intervalMs, group] of this.groupByInterval(pollIntervalMs, definitions, domainIntervalsMs)) {
+            this.adapter.log.debug(
+                `Polling ${group.map(definition => definition.id).join(', ')} every ${intervalMs / 1000}s`,
+            );
 
-        // Execute first poll immediately
-        void this.pollOnce(definitions)
-            .catch(error => {
-                this.adapter.log.error(`Initial polling failed: ${this.describeError(error)}`);
-            })
-            .finally(() => {
-                this.scheduleNextPoll(pollIntervalMs, definitions);
-            });
+            // Execute first poll immediately
+            void this.pollOnce(group)
+                .catch(error => {
+                    this.logPollError(`Initial polling failed: ${this.describeError(error)}`);
+                })
+                .finally(() => {
+                    this.scheduleNextPoll(intervalMs, group, schedule);
+                });
+        }
     }
 
     /**
      * Trigger a manual poll (e.g., after a control action)
+     *
+     * @param domains - Optional domain IDs to refresh, all selected domains if omitted
+     * @returns Promise that resolves when the poll has finished
      */
-    poll(): void {
-        if (this.currentDefinitions.length === 0) {
+    async poll(domains?: readonly DomainId[]): Promise<void> {
+        const definitions = domains
+            ? this.currentDefinitions.filter(definition => domains.includes(definition.id))
+            : this.currentDefinitions;
+
+        if (definitions.length === 0) {
             this.adapter.log.debug('Cannot poll - no definitions available');
             return;
         }
 
-        void this.pollOnce(this.currentDefinitions).catch(error => {
-            this.adapter.log.error(`Manual polling failed: ${this.describeError(error)}`);
-        });
+        try {
+            await this.pollOnce(definitions);
+        } catch (error) {
+            this.logPollError(`Manual polling failed: ${this.describeError(error)}`);
+        }
+    }
+
+    /**
+     * Exclude a domain from polling (e.g., while a subscription feeds it)
+     *
+     * @param domain - Domain ID to pause
+     */
+    pauseDomain(domain: DomainId): void {
+        if (!this.pausedDomains.has(domain)) {
+            this.pausedDomains.add(domain);
+            this.adapter.log.debug(`Polling paused for ${domain}`);
+        }
+    }
+
+    /**
+     * Include a previously paused domain in polling again
+     *
+     * @param domain - Domain ID to resume
+     */
+    resumeDomain(domain: DomainId): void {
+        if (this.pausedDomains.delete(domain)) {
+            this.adapter.log.debug(`Polling resumed for ${domain}`);
+        }
     }
 
     /**
@@ -67,10 +217,10 @@ export class PollingManager {
     stop(): void {
         this.stopRequested = true;
 
-        if (this.pollTimer) {
-            this.adapter.clearTimeout(this.pollTimer);
-            this.pollTimer = undefined;
+        for (const timer of this.pollTimers.values()) {
+            this.adapter.clearTimeout(timer);
         }
+        this.pollTimers.clear();
     }
 
     /**
@@ -84,21 +234,189 @@ export class PollingManager {
             return;
         }
 
-        const query = this.buildQuery(definitions);
+        const activeDefinitions = definitions.filter(definition => !this.pausedDomains.has(definition.id));
+        if (!activeDefinitions.length) {
+            this.adapter.log.debug('Skipping poll because all selected domains are paused.');
+            return;
+        }
+
+        const query = this.buildQuery(activeDefinitions);
         if (!query) {
             this.adapter.log.warn('No query could be built for the current selection.');
             return;
         }
 
+        let result: PartialQueryResult<Record<string, unknown>>;
         try {
-            const data = await this.apolloClient.query<Record<string, unknown>>(query);
-            this.logGraphQLResponse(data);
-            await this.onDataReceived(data);
+            result = await this.apolloClient.queryPartial<Record<string, unknown>>(query);
         } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`GraphQL error: ${error.message}`);
+            const connectionError = isConnectionError(error);
+            await this.updateConnection(!connectionError, error);
+
+            // The server refuses the API key, querying single domains would not help.
+            // The error is logged once per domain instead of on every poll.
+            const authStatus = getAuthErrorStatus(error);
+            if (authStatus) {
+                const message = `API key rejected (HTTP ${authStatus}), check the API token and its roles`;
+                await this.reportDomainErrors(
+                    activeDefinitions,
+                    new Map(activeDefinitions.map(definition => [definition.id, message])),
+                );
+                return;
             }
-            throw error;
+
+            if (!connectionError) {
+                // The server rejected the whole query, e.g. a field unknown to this API version
+                if (activeDefinitions.length > 1) {
+                    await this.pollEachDomain(activeDefinitions);
+                    return;
+                }
+                const message = this.describeGraphQLError(error);
+                await this.reportDomainErrors(activeDefinitions, new Map([[activeDefinitions[0].id, message]]));
+                throw new Error(`GraphQL error: ${message}`);
+            }
+            throw new Error(`GraphQL error: ${this.describeError(error)}`);
+        }
+
+        await this.updateConnection(true);
+
+        // Query roots are non-null, so one failing root nulls the whole response
+        if (!result.data && activeDefinitions.length > 1) {
+            await this.pollEachDomain(activeDefinitions);
+            return;
+        }
+
+        const domainErrors = assignErrorsToDomains(result.errors, activeDefinitions);
+        await this.reportDomainErrors(activeDefinitions, domainErrors);
+        if (!result.data) {
+            throw new Error(`GraphQL error: ${result.errors.map(error => error.message).join('; ')}`);
+        }
+
+        this.logGraphQLResponse(result.data);
+        // Failed domains keep their last values instead of being overwritten with null
+        await this.onDataReceived(
+            result.data,
+            activeDefinitions.filter(definition => !domainErrors.has(definition.id)),
+        );
+    }
+
+    /**
+     * Query each domain on its own so a rejected field only affects its domain
+     *
+     * @param definitions - Array of domain definitions to poll
+     */
+    private async pollEachDomain(definitions: readonly DomainDefinition[]): Promise<void> {
+        this.adapter.log.debug('Query failed as a whole, polling domains separately');
+        for (const definition of definitions) {
+            try {
+                await this.pollOnce([definition]);
+            } catch (error) {
+                this.adapter.log.debug(`Polling ${definition.id} failed: ${this.describeError(error)}`);
+            }
+        }
+    }
+
+    /**
+     * Update the error states of the queried domains.
+     * Only changes are logged and written.
+     *
+     * @param definitions - Array of domain definitions that were queried
+     * @param domainErrors - Map of failed domain IDs to their error messages
+     */
+    private async reportDomainErrors(
+        definitions: readonly DomainDefinition[],
+        domainErrors: ReadonlyMap<DomainId, string>,
+    ): Promise<void> {
+        for (const definition of definitions) {
+            const message = domainErrors.get(definition.id) ?? null;
+            if (message === (this.domainErrors.get(definition.id) ?? null)) {
+                continue;
+            }
+
+            if (message) {
+                this.domainErrors.set(definition.id, message);
+                this.adapter.log.warn(`Could not query ${definition.id}: ${message}`);
+            } else {
+                this.domainErrors.delete(definition.id);
+                this.adapter.log.info(`Query of ${definition.id} succeeded again`);
+            }
+
+            try {
+                await this.adapter.setStateAsync(getDomainErrorStateId(definition.id), message, true);
+            } catch (error) {
+                this.adapter.log.debug(
+                    `Failed to update error state of ${definition.id}: ${this.describeError(error)}`,
+                );
+            }
+        }
+    }
+
+    /**
+     * Track the reachability of the server.
+     * Only transitions are logged and reported; recovering triggers a poll of all domains.
+     *
+     * @param connected - Whether the last query reached the server
+     * @param error - Error of the failed query
+     */
+    private async updateConnection(connected: boolean, error?: unknown): Promise<void> {
+        if (this.connected === connected) {
+            return;
+        }
+
+        const recovered = this.connected === false;
+        this.connected = connected;
+
+        if (connected) {
+            if (recovered) {
+                this.adapter.log.info('Unraid server is reachable again, resuming normal polling');
+            }
+        } else if (getAuthErrorStatus(error)) {
+            this.adapter.log.warn('Unraid server rejects the API key, retrying with increasing delays');
+        } else {
+            this.adapter.log.warn(
+                `Unraid server is unreachable (${this.describeError(error)}), retrying with increasing delays`,
+            );
+        }
+
+        try {
+            await this.onConnectionChange(connected);
+        } catch (callbackError) {
+            this.adapter.log.warn(`Failed to update connection state: ${this.describeError(callbackError)}`);
+        }
+
+        // Domains with long or backed-off intervals would otherwise stay outdated
+        if (recovered && !this.stopRequested) {
+            void this.poll();
+        }
+    }
+
+    /**
+     * Describe a query error with the GraphQL error messages sent by the server
+     *
+     * @param error - Error thrown by the query
+     */
+    private describeGraphQLError(error: unknown): string {
+        const { graphQLErrors, networkError } = (error ?? {}) as {
+            graphQLErrors?: readonly GraphQLFormattedError[];
+            networkError?: { result?: { errors?: readonly GraphQLFormattedError[] } } | null;
+        };
+        const errors = graphQLErrors?.length ? graphQLErrors : networkError?.result?.errors;
+        if (Array.isArray(errors) && errors.length > 0) {
+            return errors.map(entry => entry.message).join('; ');
+        }
+        return this.describeError(error);
+    }
+
+    /**
+     * Log a polling error, repeated errors while the server is unreachable only at debug level
+     *
+     * @param message - Error message
+     */
+    private logPollError(message: string): void {
+        if (this.connected === false) {
+            this.adapter.log.debug(message);
+        } else {
+            this.adapter.log.error(message);
         }
     }
 
@@ -107,21 +425,54 @@ export class PollingManager {
      *
      * @param pollIntervalMs - Polling interval in milliseconds
      * @param definitions - Array of domain definitions to poll
+     * @param schedule - Schedule the cycle belongs to
      */
-    private scheduleNextPoll(pollIntervalMs: number, definitions: readonly DomainDefinition[]): void {
-        if (this.stopRequested) {
+    private scheduleNextPoll(pollIntervalMs: number, definitions: readonly DomainDefinition[], schedule: number): void {
+        if (this.stopRequested || schedule !== this.schedule) {
             return;
         }
 
-        this.pollTimer = this.adapter.setTimeout(() => {
+        // Back off exponentially while the server is unreachable.
+        // Each interval group counts its own cycles, so other groups do not speed up its backoff.
+        const failures = this.connected === false ? (this.groupFailures.get(pollIntervalMs) ?? 0) + 1 : 0;
+        this.groupFailures.set(pollIntervalMs, failures);
+        const delayMs = failures ? getOfflineBackoffMs(pollIntervalMs, failures) : pollIntervalMs;
+
+        const timer = this.adapter.setTimeout(() => {
             void this.pollOnce(definitions)
                 .catch(error => {
-                    this.adapter.log.error(`Polling failed: ${this.describeError(error)}`);
+                    this.logPollError(`Polling failed: ${this.describeError(error)}`);
                 })
                 .finally(() => {
-                    this.scheduleNextPoll(pollIntervalMs, definitions);
+                    this.scheduleNextPoll(pollIntervalMs, definitions, schedule);
                 });
-        }, pollIntervalMs);
+        }, delayMs);
+
+        if (timer) {
+            this.pollTimers.set(pollIntervalMs, timer);
+        }
+    }
+
+    /**
+     * Group domain definitions by their effective polling interval
+     *
+     * @param pollIntervalMs - Default polling interval in milliseconds
+     * @param definitions - Array of domain definitions to group
+     * @param domainIntervalsMs - Polling intervals in milliseconds overriding the default for single domains
+     */
+    private groupByInterval(
+        pollIntervalMs: number,
+        definitions: readonly DomainDefinition[],
+        domainIntervalsMs: ReadonlyMap<DomainId, number>,
+    ): Map<number, DomainDefinition[]> {
+        const groups = new Map<number, DomainDefinition[]>();
+        for (const definition of definitions) {
+            const intervalMs = domainIntervalsMs.get(definition.id) ?? pollIntervalMs;
+            const group = groups.get(intervalMs) ?? [];
+            group.push(definition);
+            groups.set(intervalMs, group);
+        }
+        return groups;
     }
 
     /**
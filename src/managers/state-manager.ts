@@ -3,12 +3,17 @@ import type { DomainDefinition, StateMapping } from '../shared/unraid-domains';
 import { resolveValue } from '../utils/data-transformers';
 import stateTranslations from '../translations/state-names.json';
 
+/** ioBroker quality code "device not connected", used for values while the server is unreachable */
+const DEVICE_NOT_CONNECTED_QUALITY = 0x42;
+
 /**
  * Manages ioBroker state objects and their values
  */
 export class StateManager {
     private readonly createdChannels = new Set<string>();
     private readonly createdStates = new Set<string>();
+    /** Display names of resource channels keyed by ID instead of name */
+    private readonly channelNames = new Map<string, string>();
 
     /**
      * Create a new state manager
@@ -68,16 +73,7 @@ export class StateManager {
         let fieldName: string | undefined;
         if (!translations) {
             const parts = id.split('.');
-            const isDynamicResource =
-                id.startsWith('docker.containers.') ||
-                id.startsWith('vms.') ||
-                id.startsWith('shares.') ||
-                id.startsWith('array.disks.') ||
-                id.startsWith('array.parities.') ||
-                id.startsWith('array.caches.') ||
-                id.startsWith('metrics.cpu.cores.');
-
-            if (isDynamicResource && parts.length > 0) {
+            if (this.isDynamicResourceId(id) && parts.length > 0) {
                 fieldName = parts[parts.length - 1];
                 translations = (stateTranslations as Record<string, any>)[fieldName];
             }
@@ -86,8 +82,9 @@ export class StateManager {
         // If no translation found, use fieldName or id as fallback
         const name: ioBroker.StringOrTranslated = translations || fieldName || id;
 
-        // Always update or create the state object to ensure translations are applied
-        await this.adapter.setObjectAsync(id, {
+        // Always update or create the state object to ensure translations are applied.
+        // Extend instead of replace, so history settings (`common.custom`) survive the rebuild.
+        await this.adapter.extendObjectAsync(id, {
             type: 'state',
             common: {
                 name,
@@ -105,6 +102,27 @@ export class StateManager {
         await this.adapter.setStateAsync(id, normalizedValue, true);
     }
 
+    /**
+     * Set the display name of a resource channel whose ID does not contain the name.
+     * The channel object is only rewritten when the name changes.
+     *
+     * @param channelId - Channel ID of the resource
+     * @param name - Display name of the resource
+     */
+    async setChannelName(channelId: string, name: string): Promise<void> {
+        if (this.channelNames.get(channelId) === name) {
+            return;
+        }
+
+        this.channelNames.set(channelId, name);
+        await this.adapter.setObjectAsync(channelId, {
+            type: 'channel',
+            common: { name },
+            native: {},
+        });
+        this.createdChannels.add(channelId);
+    }
+
     /**
      * Update state value without creating object
      *
@@ -116,6 +134,32 @@ export class StateManager {
         await this.adapter.setStateAsync(id, normalizedValue, true);
     }
 
+    /**
+     * Mark all values as stale while the server is unreachable.
+     * The quality is reset by the next write of each state.
+     */
+    async markAllStale(): Promise<void> {
+        const states = await this.adapter.getStatesAsync('*');
+        for (const [fullId, state] of Object.entries(states)) {
+            const relativeId = fullId.startsWith(`${this.adapter.namespace}.`)
+                ? fullId.slice(this.adapter.namespace.length + 1)
+                : fullId;
+
+            if (!state || state.q === DEVICE_NOT_CONNECTED_QUALITY || relativeId === 'info.connection') {
+                continue;
+            }
+            if (relativeId.includes('.commands.')) {
+                continue;
+            }
+
+            await this.adapter.setStateAsync(relativeId, {
+                val: state.val,
+                ack: true,
+                q: DEVICE_NOT_CONNECTED_QUALITY,
+            });
+        }
+    }
+
     /**
      * Clean up the object tree by removing objects not in allowed set
      *
@@ -176,6 +220,27 @@ export class StateManager {
     clear(): void {
         this.createdChannels.clear();
         this.createdStates.clear();
+        this.channelNames.clear();
+    }
+
+    /**
+     * Check whether an ID belongs to a dynamically created resource
+     *
+     * @param id - Object ID to check
+     */
+    private isDynamicResourceId(id: string): boolean {
+        return (
+            id.startsWith('docker.containers.') ||
+            id.startsWith('docker.networks.') ||
+            id.startsWith('vms.') ||
+            id.startsWith('shares.') ||
+            id.startsWith('ups.') ||
+            id.startsWith('array.disks.') ||
+            id.startsWith('hardware.disks.') ||
+            id.startsWith('array.parities.') ||
+            id.startsWith('array.caches.') ||
+            id.startsWith('metrics.cpu.cores.')
+        );
     }
 
     private shouldKeepObject(objectId: string, allowedIds: Set<string>): boolean {
@@ -200,19 +265,32 @@ export class StateManager {
             const channelId = parts.slice(0, index).join('.');
 
             // Try to get translation object, otherwise use channelId as fallback
-            const translations = (stateTranslations as Record<string, any>)[channelId];
+            const translations =
+                (stateTranslations as Record<string, any>)[channelId] ??
+                (this.isDynamicResourceId(channelId) && index > 2
+                    ? (stateTranslations as Record<string, any>)[parts[index - 1]]
+                    : undefined);
             let name: ioBroker.StringOrTranslated = translations || channelId;
 
             // For dynamic resources, use only the resource name as label (no translations)
             if (channelId.startsWith('docker.containers.') && index === 3) {
                 // Extract the container name (last part of the channelId)
                 name = parts[2];
+            } else if (channelId.startsWith('docker.networks.') && index === 3) {
+                // Extract the network name
+                name = parts[2];
             } else if (channelId.startsWith('shares.') && index === 2) {
                 // Extract the share name
                 name = parts[1];
             } else if (channelId.startsWith('vms.') && index === 2) {
                 // Extract the VM name
                 name = parts[1];
+            } else if (channelId.startsWith('ups.') && index === 2) {
+                // Extract the UPS name
+                name = parts[1];
+            } else if (channelId.startsWith('hardware.disks.') && index === 3) {
+                // Physical disks are keyed by serial number
+                name = parts[2];
             } else if (channelId.startsWith('array.disks.') && index === 3) {
                 // For array disks, show "Disk X" or parity/cache name
                 name = `Disk ${parts[2]}`;
@@ -224,6 +302,9 @@ export class StateManager {
                 name = `Core ${parts[3]}`;
             }
 
+            // Resources keyed by ID show their display name
+            name = this.channelNames.get(channelId) ?? name;
+
             // Always update the object to ensure the name is correct
             // This will create it if it doesn't exist, or update it if it does
             await this.adapter.setObjectAsync(channelId, {
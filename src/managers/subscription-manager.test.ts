@@ -0,0 +1,168 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { UnraidApolloClient } from '../apollo-client';
+import { CPU_SUBSCRIPTION } from '../graphql/subscriptions';
+import type { DomainId } from '../shared/unraid-domains';
+import type { AdapterInterface } from '../types/adapter-types';
+import { SubscriptionManager } from './subscription-manager';
+
+/**
+ * Observer of a subscription stream
+ */
+interface StreamObserver {
+    next: (result: { data?: Record<string, unknown> }) => void;
+    error: (error: unknown) => void;
+    complete: () => void;
+}
+
+describe('SubscriptionManager', () => {
+    const cpu = new Set<DomainId>(['metrics.cpu']);
+    let clock: sinon.SinonFakeTimers;
+    let manager: SubscriptionManager | undefined;
+
+    /**
+     * Create a subscription manager whose streams are driven by the test
+     */
+    function setup(): {
+        streams: StreamObserver[];
+        unsubscribe: sinon.SinonStub;
+        reconnect: () => void;
+        onData: sinon.SinonStub;
+        health: boolean[];
+    } {
+        const streams: StreamObserver[] = [];
+        const unsubscribe = sinon.stub();
+        let connectionListener: ((connected: boolean) => void) | undefined;
+        const apolloClient = {
+            subscribe: (query: string) => ({
+                subscribe: (observer: StreamObserver) => {
+                    if (query === CPU_SUBSCRIPTION) {
+                        streams.push(observer);
+                    }
+                    return { unsubscribe };
+                },
+            }),
+            onConnectionChange: (listener: (connected: boolean) => void) => {
+                connectionListener = listener;
+                return () => {
+                    connectionListener = undefined;
+                };
+            },
+        };
+        const adapter = {
+            log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+            setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+            clearTimeout: (timer: NodeJS.Timeout | undefined) => clearTimeout(timer),
+        };
+        const onData = sinon.stub().resolves();
+        const health: boolean[] = [];
+
+        manager = new SubscriptionManager(
+            adapter as unknown as AdapterInterface,
+            apolloClient as unknown as UnraidApolloClient,
+            onData,
+            (_domain, healthy) => health.push(healthy),
+            () => {},
+        );
+        return { streams, unsubscribe, reconnect: () => connectionListener?.(true), onData, health };
+    }
+
+    /**
+     * Deliver a CPU payload on a stream
+     *
+     * @param stream - Stream to deliver on
+     * @param percentTotal - Total CPU load of the payload
+     */
+    async function send(stream: StreamObserver, percentTotal: number): Promise<void> {
+        stream.next({ data: { systemMetricsCpu: { percentTotal } } });
+        await clock.tickAsync(0);
+    }
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+    });
+
+    afterEach(() => {
+        manager?.stop();
+        manager = undefined;
+        clock.restore();
+    });
+
+    it('applies the newest throttled payload when the throttle window closes', async () => {
+        const { streams, onData } = setup();
+        manager?.start(cpu);
+
+        await send(streams[0], 10);
+        await clock.tickAsync(200);
+        await send(streams[0], 20);
+        await clock.tickAsync(300);
+        await send(streams[0], 30);
+        expect(onData.callCount).to.equal(1);
+
+        await clock.tickAsync(500);
+
+        expect(onData.args.map(args => args[1])).to.deep.equal([
+            { metrics: { cpu: { percentTotal: 10 } } },
+            { metrics: { cpu: { percentTotal: 30 } } },
+        ]);
+    });
+
+    it('reports a healthy stream, so the domain is no longer polled', async () => {
+        const { streams, health } = setup();
+        manager?.start(cpu);
+
+        await send(streams[0], 10);
+        await send(streams[0], 20);
+
+        expect(health).to.deep.equal([true]);
+        expect(manager?.isHealthy('metrics.cpu')).to.equal(true);
+    });
+
+    it('falls back to polling when the stream stalls and resubscribes later', async () => {
+        const { streams, unsubscribe, health } = setup();
+        manager?.start(cpu);
+        await send(streams[0], 10);
+
+        await clock.tickAsync(29999);
+        expect(health).to.deep.equal([true]);
+
+        await clock.tickAsync(1);
+        expect(health).to.deep.equal([true, false]);
+        expect(unsubscribe.calledOnce).to.equal(true);
+
+        await clock.tickAsync(30000);
+        expect(streams).to.have.length(2);
+
+        await send(streams[1], 20);
+        expect(health).to.deep.equal([true, false, true]);
+    });
+
+    it('falls back to polling when the stream fails and resubscribes on reconnect', async () => {
+        const { streams, reconnect, health } = setup();
+        manager?.start(cpu);
+        await send(streams[0], 10);
+
+        streams[0].error(new Error('socket closed'));
+        expect(health).to.deep.equal([true, false]);
+        expect(manager?.isHealthy('metrics.cpu')).to.equal(false);
+
+        reconnect();
+        expect(streams).to.have.length(2);
+
+        // The retry timer was replaced by the reconnect
+        await clock.tickAsync(30000);
+        expect(streams).to.have.length(2);
+    });
+
+    it('drops a pending payload of a stream that ended', async () => {
+        const { streams, onData } = setup();
+        manager?.start(cpu);
+
+        await send(streams[0], 10);
+        await send(streams[0], 20);
+        streams[0].complete();
+        await clock.tickAsync(1000);
+
+        expect(onData.callCount).to.equal(1);
+    });
+});
@@ -0,0 +1,445 @@
+import type { ObservableSubscription } from '@apollo/client/utilities';
+import type { AdapterInterface } from '../types/adapter-types';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { DomainId } from '../shared/unraid-domains';
+import type { SchemaCapabilities } from '../graphql/schema-capabilities';
+import {
+    CPU_SUBSCRIPTION,
+    MEMORY_SUBSCRIPTION,
+    NOTIFICATION_SUBSCRIPTION,
+    UPS_SUBSCRIPTION,
+} from '../graphql/subscriptions';
+
+/**
+ * Describes a GraphQL subscription that can feed a polled domain
+ */
+interface DomainSubscription {
+    /** Domain that is fed by this subscription */
+    domain: DomainId;
+    /** GraphQL subscription document */
+    query: string;
+    /** Subscription root field in the response */
+    root: string;
+    /** Location of the payload in the shape of a polled query result */
+    target: readonly string[];
+    /**
+     * Payload is a single item of a polled list. Such streams are event driven:
+     * they supplement polling instead of replacing it and are not watched for stalls.
+     */
+    partial?: boolean;
+    /**
+     * Payload only signals a change. The domain is refreshed by a targeted poll,
+     * otherwise the stream is handled like a partial one.
+     */
+    refresh?: boolean;
+}
+
+/**
+ * Subscriptions available for live updates, keyed by the domain they replace
+ */
+const DOMAIN_SUBSCRIPTIONS: readonly DomainSubscription[] = [
+    {
+        domain: 'metrics.cpu',
+        query: CPU_SUBSCRIPTION,
+        root: 'systemMetricsCpu',
+        target: ['metrics', 'cpu'],
+    },
+    {
+        domain: 'metrics.memory',
+        query: MEMORY_SUBSCRIPTION,
+        root: 'systemMetricsMemory',
+        target: ['metrics', 'memory'],
+    },
+    {
+        domain: 'ups.devices',
+        query: UPS_SUBSCRIPTION,
+        root: 'upsUpdates',
+        target: ['upsDevices'],
+        partial: true,
+    },
+    {
+        domain: 'notifications.overview',
+        query: NOTIFICATION_SUBSCRIPTION,
+        root: 'notificationAdded',
+        target: [],
+        refresh: true,
+    },
+];
+
+/**
+ * Check whether a stream only supplements polling instead of replacing it
+ *
+ * @param definition - Subscription definition to check
+ */
+function isSupplementary(definition: DomainSubscription): boolean {
+    return !!definition.partial || !!definition.refresh;
+}
+
+/**
+ * Get the selected domains that can be fed by a subscription instead of polling
+ *
+ * @param selectedDomains - Set of selected domain IDs
+ * @returns Domain IDs with subscription support
+ */
+export function getSubscriptionDomains(selectedDomains: Set<DomainId>): DomainId[] {
+    return DOMAIN_SUBSCRIPTIONS.filter(
+        definition => !isSupplementary(definition) && selectedDomains.has(definition.domain),
+    ).map(definition => definition.domain);
+}
+
+/**
+ * Manages GraphQL subscriptions for live updates of selected domains.
+ * Payloads are reshaped like a polled query result so the regular
+ * state mappings can be applied. Streams that fail or stall are reported
+ * as unhealthy and restarted once the WebSocket is available again.
+ */
+export class SubscriptionManager {
+    private readonly subscriptions = new Map<DomainId, ObservableSubscription>();
+    private readonly healthyDomains = new Set<DomainId>();
+    private readonly lastUpdateTimes = new Map<DomainId, number>();
+    /** Newest payload received within the throttle window, applied when the window closes */
+    private readonly pendingPayloads = new Map<DomainId, unknown>();
+    private readonly throttleTimers = new Map<DomainId, ioBroker.Timeout>();
+    private readonly watchdogTimers = new Map<DomainId, ioBroker.Timeout>();
+    private readonly resubscribeTimers = new Map<DomainId, ioBroker.Timeout>();
+    private removeConnectionListener?: () => void;
+    private stopped = false;
+
+    /** Minimum time between two applied updates of the same domain (milliseconds) */
+    private readonly updateThrottleMs = 1000;
+    /** Time without data after which a stream is considered stalled (milliseconds) */
+    private readonly stallTimeoutMs = 30000;
+    /** Delay before a failed or stalled stream is subscribed again (milliseconds) */
+    private readonly resubscribeDelayMs = 30000;
+
+    /**
+     * Create a new subscription manager
+     *
+     * @param adapter - Adapter interface for logging
+     * @param apolloClient - Apollo client for GraphQL subscriptions
+     * @param onDataReceived - Callback for subscription data in polled-result shape
+     * @param onHealthChanged - Callback when a domain stream that replaces polling becomes healthy or fails
+     * @param onRefreshRequested - Callback when an event stream signals that a domain changed
+     */
+    constructor(
+        private readonly adapter: AdapterInterface,
+        private readonly apolloClient: UnraidApolloClient,
+        private readonly onDataReceived: (
+            domain: DomainId,
+            data: Record<string, unknown>,
+            partial: boolean,
+        ) => Promise<void>,
+        private readonly onHealthChanged: (domain: DomainId, healthy: boolean) => void,
+        private readonly onRefreshRequested: (domain: DomainId) => void,
+    ) {}
+
+    /**
+     * Start subscriptions for all selected domains that support live updates
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     * @param capabilities - Schema of the server, subscriptions it does not offer are skipped
+     * @returns Domains for which a subscription was started
+     */
+    start(selectedDomains: Set<DomainId>, capabilities?: SchemaCapabilities): DomainId[] {
+        const started: DomainId[] = [];
+        this.stopped = false;
+
+        // Resubscribe pending streams as soon as the socket is back
+        this.removeConnectionListener ??= this.apolloClient.onConnectionChange(connected => {
+            if (connected) {
+                this.resubscribePending();
+            }
+        });
+
+        for (const definition of DOMAIN_SUBSCRIPTIONS) {
+            if (!selectedDomains.has(definition.domain) || this.subscriptions.has(definition.domain)) {
+                continue;
+            }
+            if (capabilities && !capabilities.hasSubscription(definition.root)) {
+                this.adapter.log.info(`Live updates for ${definition.domain} are not supported by this Unraid API`);
+                continue;
+            }
+            this.subscribe(definition);
+            started.push(definition.domain);
+        }
+
+        if (started.length) {
+            this.adapter.log.info(`Subscribed to live updates for: ${started.join(', ')}`);
+        }
+
+        return started;
+    }
+
+    /**
+     * Stop all active subscriptions
+     */
+    stop(): void {
+        this.stopped = true;
+        this.removeConnectionListener?.();
+        this.removeConnectionListener = undefined;
+
+        for (const timer of [
+            ...this.watchdogTimers.values(),
+            ...this.resubscribeTimers.values(),
+            ...this.throttleTimers.values(),
+        ]) {
+            this.adapter.clearTimeout(timer);
+        }
+        this.watchdogTimers.clear();
+        this.resubscribeTimers.clear();
+        this.throttleTimers.clear();
+        this.pendingPayloads.clear();
+
+        for (const subscription of this.subscriptions.values()) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions.clear();
+        this.healthyDomains.clear();
+        this.lastUpdateTimes.clear();
+    }
+
+    /**
+     * Check whether a domain currently receives data from a healthy stream
+     *
+     * @param domain - Domain ID to check
+     */
+    isHealthy(domain: DomainId): boolean {
+        return this.healthyDomains.has(domain);
+    }
+
+    /**
+     * Subscribe to a single domain subscription
+     *
+     * @param definition - Subscription definition to start
+     */
+    private subscribe(definition: DomainSubscription): void {
+        const observable = this.apolloClient.subscribe<Record<string, unknown>>(definition.query);
+
+        const subscription = observable.subscribe({
+            next: result => {
+                const payload = result.data?.[definition.root];
+                if (!payload) {
+                    return;
+                }
+                void this.handlePayload(definition, payload).catch(error => {
+                    this.adapter.log.warn(
+                        `Failed to apply subscription data for ${definition.domain}: ${this.describeError(error)}`,
+                    );
+                });
+            },
+            error: error => {
+                this.adapter.log.warn(`Subscription for ${definition.domain} failed: ${this.describeError(error)}`);
+                this.handleStreamEnded(definition);
+            },
+            complete: () => {
+                this.adapter.log.debug(`Subscription for ${definition.domain} completed`);
+                this.handleStreamEnded(definition);
+            },
+        });
+
+        this.subscriptions.set(definition.domain, subscription);
+        if (!isSupplementary(definition)) {
+            this.armWatchdog(definition);
+        }
+    }
+
+    /**
+     * Apply an incoming payload, throttled per domain.
+     * Payloads within the throttle window are not dropped, the newest one is applied when the window closes.
+     *
+     * @param definition - Subscription definition the payload belongs to
+     * @param payload - Subscription payload
+     */
+    private async handlePayload(definition: DomainSubscription, payload: unknown): Promise<void> {
+        if (definition.refresh) {
+            this.onRefreshRequested(definition.domain);
+            return;
+        }
+
+        if (definition.partial) {
+            // Every event carries a different item, so nothing may be throttled away
+            await this.onDataReceived(definition.domain, this.wrapPayload(definition.target, [payload]), true);
+            return;
+        }
+
+        this.armWatchdog(definition);
+
+        if (!this.healthyDomains.has(definition.domain)) {
+            this.healthyDomains.add(definition.domain);
+            this.onHealthChanged(definition.domain, true);
+        }
+
+        const lastUpdate = this.lastUpdateTimes.get(definition.domain);
+        const waitMs = lastUpdate === undefined ? 0 : lastUpdate + this.updateThrottleMs - Date.now();
+        if (waitMs > 0) {
+            this.pendingPayloads.set(definition.domain, payload);
+            if (!this.throttleTimers.has(definition.domain)) {
+                this.scheduleTrailingUpdate(definition, waitMs);
+            }
+            return;
+        }
+
+        await this.applyPayload(definition, payload);
+    }
+
+    /**
+     * Apply the newest payload of a throttle window once the window has closed
+     *
+     * @param definition - Subscription definition the payload belongs to
+     * @param delayMs - Remaining time of the throttle window (milliseconds)
+     */
+    private scheduleTrailingUpdate(definition: DomainSubscription, delayMs: number): void {
+        const timer = this.adapter.setTimeout(() => {
+            this.throttleTimers.delete(definition.domain);
+            const payload = this.pendingPayloads.get(definition.domain);
+            this.pendingPayloads.delete(definition.domain);
+            if (payload === undefined) {
+                return;
+            }
+            void this.applyPayload(definition, payload).catch(error => {
+                this.adapter.log.warn(
+                    `Failed to apply subscription data for ${definition.domain}: ${this.describeError(error)}`,
+                );
+            });
+        }, delayMs);
+
+        if (timer) {
+            this.throttleTimers.set(definition.domain, timer);
+        }
+    }
+
+    /**
+     * Apply a payload of a stream that replaces polling
+     *
+     * @param definition - Subscription definition the payload belongs to
+     * @param payload - Subscription payload
+     */
+    private async applyPayload(definition: DomainSubscription, payload: unknown): Promise<void> {
+        this.lastUpdateTimes.set(definition.domain, Date.now());
+        await this.onDataReceived(definition.domain, this.wrapPayload(definition.target, payload), false);
+    }
+
+    /**
+     * (Re)start the stall watchdog of a stream
+     *
+     * @param definition - Subscription definition to watch
+     */
+    private armWatchdog(definition: DomainSubscription): void {
+        const existing = this.watchdogTimers.get(definition.domain);
+        if (existing) {
+            this.adapter.clearTimeout(existing);
+        }
+
+        const timer = this.adapter.setTimeout(() => {
+            this.watchdogTimers.delete(definition.domain);
+            this.adapter.log.warn(
+                `Subscription for ${definition.domain} stalled (no data for ${this.stallTimeoutMs / 1000}s)`,
+            );
+            this.subscriptions.get(definition.domain)?.unsubscribe();
+            this.handleStreamEnded(definition);
+        }, this.stallTimeoutMs);
+
+        if (timer) {
+            this.watchdogTimers.set(definition.domain, timer);
+        }
+    }
+
+    /**
+     * Handle an errored, completed or stalled stream
+     *
+     * @param definition - Subscription definition whose stream ended
+     */
+    private handleStreamEnded(definition: DomainSubscription): void {
+        const domain = definition.domain;
+        this.subscriptions.delete(domain);
+        this.lastUpdateTimes.delete(domain);
+        this.pendingPayloads.delete(domain);
+
+        for (const timers of [this.watchdogTimers, this.throttleTimers]) {
+            const timer = timers.get(domain);
+            if (timer) {
+                this.adapter.clearTimeout(timer);
+                timers.delete(domain);
+            }
+        }
+
+        if (this.healthyDomains.delete(domain)) {
+            this.onHealthChanged(domain, false);
+        }
+
+        this.scheduleResubscribe(definition);
+    }
+
+    /**
+     * Schedule a new subscription attempt for an ended stream
+     *
+     * @param definition - Subscription definition to restart
+     */
+    private scheduleResubscribe(definition: DomainSubscription): void {
+        if (this.stopped || this.resubscribeTimers.has(definition.domain)) {
+            return;
+        }
+
+        const timer = this.adapter.setTimeout(() => {
+            this.resubscribeTimers.delete(definition.domain);
+            if (this.stopped || this.subscriptions.has(definition.domain)) {
+                return;
+            }
+            this.adapter.log.debug(`Resubscribing to live updates for ${definition.domain}`);
+            this.subscribe(definition);
+        }, this.resubscribeDelayMs);
+
+        if (timer) {
+            this.resubscribeTimers.set(definition.domain, timer);
+        }
+    }
+
+    /**
+     * Resubscribe all streams that are waiting for a retry
+     */
+    private resubscribePending(): void {
+        if (this.stopped) {
+            return;
+        }
+
+        for (const definition of DOMAIN_SUBSCRIPTIONS) {
+            const timer = this.resubscribeTimers.get(definition.domain);
+            if (!timer) {
+                continue;
+            }
+            this.adapter.clearTimeout(timer);
+            this.resubscribeTimers.delete(definition.domain);
+
+            if (!this.subscriptions.has(definition.domain)) {
+                this.adapter.log.debug(`WebSocket reconnected, resubscribing ${definition.domain}`);
+                this.subscribe(definition);
+            }
+        }
+    }
+
+    /**
+     * Nest a payload at the given path so it matches a polled query result
+     *
+     * @param target - Path segments for the payload
+     * @param payload - Subscription payload
+     */
+    private wrapPayload(target: readonly string[], payload: unknown): Record<string, unknown> {
+        let wrapped: unknown = payload;
+        for (let index = target.length - 1; index >= 0; index -= 1) {
+            wrapped = { [target[index]]: wrapped };
+        }
+        return wrapped as Record<string, unknown>;
+    }
+
+    /**
+     * Convert error to string description
+     *
+     * @param error - Error to describe
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
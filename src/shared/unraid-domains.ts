@@ -30,15 +30,24 @@ export type DomainId =
     | 'metrics.memory'
     | 'array'
     | 'array.status'
+    | 'array.parity'
     | 'array.disks'
     | 'array.parities'
     | 'array.caches'
+    | 'hardware'
+    | 'hardware.disks'
     | 'docker'
     | 'docker.containers'
+    | 'docker.networks'
+    | 'docker.updatesAvailable'
     | 'shares'
     | 'shares.list'
     | 'vms'
-    | 'vms.list';
+    | 'vms.list'
+    | 'ups'
+    | 'ups.devices'
+    | 'notifications'
+    | 'notifications.overview';
 
 /**
  * Specification for a GraphQL field selection.
@@ -47,6 +56,8 @@ export type DomainId =
 export interface FieldSpec {
     /** Field name in GraphQL schema */
     name: string;
+    /** Optional GraphQL argument list, e.g. `filter: { type: UNREAD, offset: 0, limit: 20 }` */
+    args?: string;
     /** Nested field selections */
     selection?: readonly FieldSpec[];
 }
@@ -94,6 +105,8 @@ export interface StateMapping {
         name?: string;
         /** Optional description for the state */
         desc?: string;
+        /** Optional list of allowed values and their labels */
+        states?: Record<string, string>;
     };
     /** Optional transformation function for the value */
     transform?: (value: unknown) => unknown;
@@ -110,6 +123,11 @@ export interface DomainDefinition {
     selection: readonly RootSelection[];
     /** State mappings for this domain */
     states: readonly StateMapping[];
+    /**
+     * Selects fields that docs/schema.graphql does not contain because only newer API versions offer them.
+     * The domain is only polled when the schema of the server confirms the fields.
+     */
+    requiresCapabilityCheck?: boolean;
 }
 
 /**
@@ -168,6 +186,11 @@ const domainTreeDefinition: readonly DomainNode[] = [
                 label: 'domains.array.status',
                 defaultSelected: true,
             },
+            {
+                id: 'array.parity',
+                label: 'domains.array.parity',
+                defaultSelected: false,
+            },
             {
                 id: 'array.disks',
                 label: 'domains.array.disks',
@@ -185,6 +208,17 @@ const domainTreeDefinition: readonly DomainNode[] = [
             },
         ],
     },
+    {
+        id: 'hardware',
+        label: 'domains.hardware',
+        children: [
+            {
+                id: 'hardware.disks',
+                label: 'domains.hardware.disks',
+                defaultSelected: false,
+            },
+        ],
+    },
     {
         id: 'docker',
         label: 'domains.docker',
@@ -194,6 +228,16 @@ const domainTreeDefinition: readonly DomainNode[] = [
                 label: 'domains.docker.containers',
                 defaultSelected: false,
             },
+            {
+                id: 'docker.networks',
+                label: 'domains.docker.networks',
+                defaultSelected: false,
+            },
+            {
+                id: 'docker.updatesAvailable',
+                label: 'domains.docker.updatesAvailable',
+                defaultSelected: false,
+            },
         ],
     },
     {
@@ -218,6 +262,28 @@ const domainTreeDefinition: readonly DomainNode[] = [
             },
         ],
     },
+    {
+        id: 'ups',
+        label: 'domains.ups',
+        children: [
+            {
+                id: 'ups.devices',
+                label: 'domains.ups.devices',
+                defaultSelected: false,
+            },
+        ],
+    },
+    {
+        id: 'notifications',
+        label: 'domains.notifications',
+        children: [
+            {
+                id: 'notifications.overview',
+                label: 'domains.notifications.overview',
+                defaultSelected: false,
+            },
+        ],
+    },
 ];
 
 /**
@@ -323,6 +389,41 @@ const ancestorIndex = buildAncestorIndex(domainTreeDefinition, undefined, new Ma
  */
 export const getDomainAncestors = (id: DomainId): readonly DomainId[] => ancestorIndex.get(id) ?? [];
 
+/**
+ * Fields selected for the current parity check and each history entry
+ */
+const PARITY_CHECK_FIELDS: readonly FieldSpec[] = [
+    { name: 'date' },
+    { name: 'duration' },
+    { name: 'speed' },
+    { name: 'status' },
+    { name: 'errors' },
+    { name: 'progress' },
+    { name: 'correcting' },
+    { name: 'paused' },
+    { name: 'running' },
+];
+
+/**
+ * Maximum number of parity checks kept in the history state
+ */
+const PARITY_HISTORY_LIMIT = 20;
+
+/**
+ * Counters selected for unread and archived notifications
+ */
+const NOTIFICATION_COUNT_FIELDS: readonly FieldSpec[] = [
+    { name: 'info' },
+    { name: 'warning' },
+    { name: 'alert' },
+    { name: 'total' },
+];
+
+/**
+ * Maximum number of unread notifications fetched and kept in the recent list state
+ */
+const NOTIFICATION_LIST_LIMIT = 20;
+
 const domainDefinitionsList: readonly DomainDefinition[] = [
     {
         id: 'info.time',
@@ -612,6 +713,129 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             },
         ],
     },
+    {
+        id: 'array.parity',
+        selection: [
+            {
+                root: 'array',
+                fields: [
+                    {
+                        name: 'parityCheckStatus',
+                        selection: PARITY_CHECK_FIELDS,
+                    },
+                ],
+            },
+            {
+                root: 'parityHistory',
+                fields: PARITY_CHECK_FIELDS,
+            },
+        ],
+        states: [
+            {
+                id: 'array.parity.status',
+                path: ['array', 'parityCheckStatus', 'status'],
+                common: { type: 'string', role: 'indicator.status' },
+            },
+            {
+                id: 'array.parity.running',
+                path: ['array', 'parityCheckStatus', 'running'],
+                common: { type: 'boolean', role: 'indicator.working' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parity.paused',
+                path: ['array', 'parityCheckStatus', 'paused'],
+                common: { type: 'boolean', role: 'indicator' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parity.correcting',
+                path: ['array', 'parityCheckStatus', 'correcting'],
+                common: { type: 'boolean', role: 'indicator' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parity.progress',
+                path: ['array', 'parityCheckStatus', 'progress'],
+                common: { type: 'number', role: 'value.percent', unit: '%' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'array.parity.speed',
+                path: ['array', 'parityCheckStatus', 'speed'],
+                common: { type: 'number', role: 'value.speed', unit: 'MB/s' },
+                transform: parseSpeed,
+            },
+            {
+                id: 'array.parity.errors',
+                path: ['array', 'parityCheckStatus', 'errors'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'array.parity.lastCheck.date',
+                path: ['parityHistory'],
+                common: { type: 'string', role: 'date' },
+                transform: (value: unknown): string | null => {
+                    const date = latestParityCheck(value)?.date;
+                    return typeof date === 'string' ? date : null;
+                },
+            },
+            {
+                id: 'array.parity.lastCheck.daysAgo',
+                path: ['parityHistory'],
+                common: { type: 'number', role: 'value', unit: 'd' },
+                transform: (value: unknown): number | null => {
+                    const timestamp = parityCheckTimestamp(latestParityCheck(value));
+                    if (timestamp === null) {
+                        return null;
+                    }
+                    return Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+                },
+            },
+            {
+                id: 'array.parity.lastCheck.duration',
+                path: ['parityHistory'],
+                common: { type: 'number', role: 'value', unit: 's' },
+                transform: (value: unknown): number | null => numberOrNull(latestParityCheck(value)?.duration),
+            },
+            {
+                id: 'array.parity.lastCheck.result',
+                path: ['parityHistory'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => {
+                    const status = latestParityCheck(value)?.status;
+                    return typeof status === 'string' ? status : null;
+                },
+            },
+            {
+                id: 'array.parity.lastCheck.errors',
+                path: ['parityHistory'],
+                common: { type: 'number', role: 'value' },
+                transform: (value: unknown): number | null => numberOrNull(latestParityCheck(value)?.errors),
+            },
+            {
+                id: 'array.parity.history',
+                path: ['parityHistory'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const entries = sortParityChecks(value)
+                        .slice(0, PARITY_HISTORY_LIMIT)
+                        .map(check => ({
+                            date: check.date ?? null,
+                            duration: numberOrNull(check.duration),
+                            speed: parseSpeed(check.speed),
+                            status: check.status ?? null,
+                            errors: numberOrNull(check.errors),
+                        }));
+                    return JSON.stringify(entries);
+                },
+            },
+        ],
+    },
     {
         id: 'array.disks',
         selection: [
@@ -723,6 +947,35 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             // Note: Cache states are created dynamically in main.ts
         ],
     },
+    {
+        id: 'hardware.disks',
+        selection: [
+            {
+                root: 'disks',
+                fields: [
+                    { name: 'id' },
+                    { name: 'device' },
+                    { name: 'type' },
+                    { name: 'name' },
+                    { name: 'vendor' },
+                    { name: 'size' },
+                    { name: 'firmwareRevision' },
+                    { name: 'serialNum' },
+                    { name: 'interfaceType' },
+                    { name: 'smartStatus' },
+                    { name: 'temperature' },
+                    { name: 'isSpinning' },
+                    {
+                        name: 'partitions',
+                        selection: [{ name: 'name' }, { name: 'fsType' }, { name: 'size' }],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Physical disk states are created dynamically in main.ts
+        ],
+    },
     {
         id: 'docker.containers',
         selection: [
@@ -739,6 +992,20 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
                             { name: 'status' },
                             { name: 'autoStart' },
                             { name: 'sizeRootFs' },
+                            { name: 'command' },
+                            { name: 'created' },
+                            {
+                                name: 'ports',
+                                selection: [
+                                    { name: 'ip' },
+                                    { name: 'privatePort' },
+                                    { name: 'publicPort' },
+                                    { name: 'type' },
+                                ],
+                            },
+                            { name: 'hostConfig', selection: [{ name: 'networkMode' }] },
+                            { name: 'networkSettings' },
+                            { name: 'mounts' },
                         ],
                     },
                 ],
@@ -748,6 +1015,65 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             // Note: Container states are created dynamically in main.ts
         ],
     },
+    {
+        id: 'docker.networks',
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'networks',
+                        selection: [
+                            { name: 'id' },
+                            { name: 'name' },
+                            { name: 'driver' },
+                            { name: 'scope' },
+                            { name: 'internal' },
+                            { name: 'attachable' },
+                            { name: 'enableIPv6' },
+                            { name: 'ipam' },
+                            { name: 'containers' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Network states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'docker.updatesAvailable',
+        requiresCapabilityCheck: true,
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'containerUpdateStatuses',
+                        selection: [{ name: 'name' }, { name: 'updateStatus' }],
+                    },
+                ],
+            },
+        ],
+        states: [
+            {
+                id: 'docker.updatesAvailable.count',
+                path: ['docker', 'containerUpdateStatuses'],
+                common: { type: 'number', role: 'value' },
+                transform: (value: unknown): number | null =>
+                    Array.isArray(value) ? containersWithUpdate(value).length : null,
+            },
+            {
+                id: 'docker.updatesAvailable.names',
+                path: ['docker', 'containerUpdateStatuses'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null =>
+                    Array.isArray(value) ? containersWithUpdate(value).join(', ') : null,
+            },
+            // Note: Per-container updateAvailable states are created dynamically in main.ts
+        ],
+    },
     {
         id: 'shares.list',
         selection: [
@@ -794,48 +1120,310 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             // Note: VM states are created dynamically in main.ts
         ],
     },
+    {
+        id: 'ups.devices',
+        selection: [
+            {
+                root: 'upsDevices',
+                fields: [
+                    { name: 'id' },
+                    { name: 'name' },
+                    { name: 'model' },
+                    { name: 'status' },
+                    {
+                        name: 'battery',
+                        selection: [{ name: 'chargeLevel' }, { name: 'estimatedRuntime' }, { name: 'health' }],
+                    },
+                    {
+                        name: 'power',
+                        selection: [{ name: 'inputVoltage' }, { name: 'outputVoltage' }, { name: 'loadPercentage' }],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: UPS states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'notifications.overview',
+        selection: [
+            {
+                root: 'notifications',
+                fields: [
+                    {
+                        name: 'overview',
+                        selection: [
+                            { name: 'unread', selection: NOTIFICATION_COUNT_FIELDS },
+                            { name: 'archive', selection: NOTIFICATION_COUNT_FIELDS },
+                        ],
+                    },
+                    {
+                        name: 'list',
+                        args: `filter: { type: UNREAD, offset: 0, limit: ${NOTIFICATION_LIST_LIMIT} }`,
+                        selection: [
+                            { name: 'id' },
+                            { name: 'title' },
+                            { name: 'subject' },
+                            { name: 'description' },
+                            { name: 'importance' },
+                            { name: 'link' },
+                            { name: 'timestamp' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            {
+                id: 'notifications.unread.info',
+                path: ['notifications', 'overview', 'unread', 'info'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.warning',
+                path: ['notifications', 'overview', 'unread', 'warning'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.alert',
+                path: ['notifications', 'overview', 'unread', 'alert'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.total',
+                path: ['notifications', 'overview', 'unread', 'total'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.archived.total',
+                path: ['notifications', 'overview', 'archive', 'total'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.latest.id',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.id),
+            },
+            {
+                id: 'notifications.latest.title',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.title),
+            },
+            {
+                id: 'notifications.latest.subject',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.subject),
+            },
+            {
+                id: 'notifications.latest.description',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.description),
+            },
+            {
+                id: 'notifications.latest.importance',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'text' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.importance),
+            },
+            {
+                id: 'notifications.latest.timestamp',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'date' },
+                transform: (value: unknown): string | null => stringOrNull(latestNotification(value)?.timestamp),
+            },
+            {
+                id: 'notifications.recent',
+                path: ['notifications', 'list'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const entries = sortNotifications(value)
+                        .slice(0, NOTIFICATION_LIST_LIMIT)
+                        .map(notification => ({
+                            id: stringOrNull(notification.id),
+                            title: stringOrNull(notification.title),
+                            subject: stringOrNull(notification.subject),
+                            description: stringOrNull(notification.description),
+                            importance: stringOrNull(notification.importance),
+                            link: stringOrNull(notification.link),
+                            timestamp: stringOrNull(notification.timestamp),
+                        }));
+                    return JSON.stringify(entries);
+                },
+            },
+        ],
+    },
 ];
 
-function numberOrNull(value: unknown): number | null {
+function booleanOrNull(value: unknown): boolean | null {
     if (value === null || value === undefined) {
         return null;
     }
-    if (typeof value === 'number') {
-        return Number.isFinite(value) ? value : null;
-    }
+    return Boolean(value);
+}
+
+/**
+ * Parse a parity check speed, which the API reports as string (e.g. "145.2 MB/s").
+ *
+ * @param value - Speed value from the API
+ * @returns Speed in MB/s or null if not parseable
+ */
+function parseSpeed(value: unknown): number | null {
     if (typeof value === 'string') {
-        const parsed = Number(value);
+        const parsed = Number.parseFloat(value);
         return Number.isFinite(parsed) ? parsed : null;
     }
-    if (typeof value === 'bigint') {
-        const num = Number(value);
-        return Number.isFinite(num) ? num : null;
-    }
-    return null;
+    return numberOrNull(value);
 }
 
 /**
- * Convert bytes to gigabytes.
+ * Get the timestamp of a parity check entry.
  *
- * @param value - Value in bytes
- * @returns Value in gigabytes or null if invalid
+ * @param check - Parity check entry
+ * @returns Timestamp in milliseconds or null if the date is missing or invalid
  */
-function bytesToGigabytes(value: unknown): number | null {
-    const numeric = numberOrNull(value);
-    if (numeric === null) {
+function parityCheckTimestamp(check: Record<string, unknown> | undefined): number | null {
+    if (typeof check?.date !== 'string') {
         return null;
     }
-    const gigabytes = numeric / (1024 * 1024 * 1024);
-    return Number.isFinite(gigabytes) ? gigabytes : null;
+    const timestamp = Date.parse(check.date);
+    return Number.isFinite(timestamp) ? timestamp : null;
 }
 
-function kilobytesToGigabytes(value: unknown): number | null {
-    const numeric = numberOrNull(value);
-    if (numeric === null) {
-        return null;
-    }
-    const gigabytes = numeric / (1024 * 1024);
-    return Number.isFinite(gigabytes) ? Math.round(gigabytes * 100) / 100 : null;
+/**
+ * Sort parity check entries from newest to oldest.
+ *
+ * @param value - Parity history list from the API
+ * @returns Sorted copy of all entries that are objects
+ */
+function sortParityChecks(value: readonly unknown[]): Record<string, unknown>[] {
+    return value
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .sort((left, right) => (parityCheckTimestamp(right) ?? 0) - (parityCheckTimestamp(left) ?? 0));
+}
+
+/**
+ * Find the most recent parity check that is no longer running.
+ *
+ * @param value - Parity history list from the API
+ * @returns Latest finished parity check or undefined if none exists
+ */
+function latestParityCheck(value: unknown): Record<string, unknown> | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    return sortParityChecks(value).find(
+        check => check.status !== 'RUNNING' && check.status !== 'PAUSED' && check.status !== 'NEVER_RUN',
+    );
+}
+
+function stringOrNull(value: unknown): string | null {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    return null;
+}
+
+/**
+ * Sort notifications from newest to oldest.
+ * Entries without a parseable timestamp keep their API order after dated ones.
+ *
+ * @param value - Notification list from the API
+ * @returns Sorted copy of all entries that are objects
+ */
+function sortNotifications(value: readonly unknown[]): Record<string, unknown>[] {
+    const timestampOf = (notification: Record<string, unknown>): number => {
+        const timestamp = typeof notification.timestamp === 'string' ? Date.parse(notification.timestamp) : NaN;
+        return Number.isFinite(timestamp) ? timestamp : 0;
+    };
+    return value
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .sort((left, right) => timestampOf(right) - timestampOf(left));
+}
+
+/**
+ * Find the newest notification in a list.
+ *
+ * @param value - Notification list from the API
+ * @returns Newest notification or undefined if the list is empty
+ */
+function latestNotification(value: unknown): Record<string, unknown> | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    return sortNotifications(value)[0];
+}
+
+/**
+ * Collect the names of containers with a pending image update.
+ *
+ * @param value - Container update status list from the API
+ * @returns Sorted container names with status UPDATE_AVAILABLE
+ */
+function containersWithUpdate(value: readonly unknown[]): string[] {
+    return value
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .filter(entry => entry.updateStatus === 'UPDATE_AVAILABLE')
+        .map(entry => stringOrNull(entry.name)?.replace(/^\//, ''))
+        .filter((name): name is string => !!name)
+        .sort((left, right) => left.localeCompare(right));
+}
+
+function numberOrNull(value: unknown): number | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value === 'string') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    if (typeof value === 'bigint') {
+        const num = Number(value);
+        return Number.isFinite(num) ? num : null;
+    }
+    return null;
+}
+
+/**
+ * Convert bytes to gigabytes.
+ *
+ * @param value - Value in bytes
+ * @returns Value in gigabytes or null if invalid
+ */
+function bytesToGigabytes(value: unknown): number | null {
+    const numeric = numberOrNull(value);
+    if (numeric === null) {
+        return null;
+    }
+    const gigabytes = numeric / (1024 * 1024 * 1024);
+    return Number.isFinite(gigabytes) ? gigabytes : null;
+}
+
+function kilobytesToGigabytes(value: unknown): number | null {
+    const numeric = numberOrNull(value);
+    if (numeric === null) {
+        return null;
+    }
+    const gigabytes = numeric / (1024 * 1024);
+    return Number.isFinite(gigabytes) ? Math.round(gigabytes * 100) / 100 : null;
 }
 
 /**
@@ -850,6 +1438,20 @@ export const domainDefinitionById = new Map<DomainId, DomainDefinition>(
     domainDefinitionsList.map(definition => [definition.id, definition]),
 );
 
+/**
+ * Channel holding the error state of every selected domain
+ */
+export const DOMAIN_ERRORS_CHANNEL = 'errors';
+
+/**
+ * Get the ID of the state holding the last query error of a domain.
+ * The domain path is flattened because paths like `vms.list` would collide with dynamic resources.
+ *
+ * @param id - Domain ID
+ * @returns State ID below the errors channel
+ */
+export const getDomainErrorStateId = (id: DomainId): string => `${DOMAIN_ERRORS_CHANNEL}.${id.replace(/\./g, '_')}`;
+
 /**
  * Recursively collect all domain IDs from a node and its children.
  *
@@ -930,6 +1532,104 @@ export const DOCKER_CONTROL_STATES: StateMapping[] = [
             name: 'Stop Container',
         },
     },
+    {
+        id: 'commands.restart',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Restart Container',
+        },
+    },
+];
+
+/**
+ * Writable desired-state mapping for Docker containers (switch semantics)
+ */
+export const DOCKER_DESIRED_STATES: StateMapping[] = [
+    {
+        id: 'running',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'switch.power',
+            read: true,
+            write: true,
+            name: 'Container Running',
+        },
+    },
+];
+
+/**
+ * Writable desired-state mapping for virtual machines
+ */
+export const VM_DESIRED_STATES: StateMapping[] = [
+    {
+        id: 'desiredState',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'state',
+            read: true,
+            write: true,
+            name: 'Desired VM State',
+            states: { running: 'Running', paused: 'Paused', shutoff: 'Shut off' },
+        },
+    },
+];
+
+/**
+ * Feedback state mappings created in every commands channel next to its buttons
+ */
+export const COMMAND_FEEDBACK_STATES: StateMapping[] = [
+    {
+        id: 'commands.lastResult',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'json',
+            read: true,
+            write: false,
+            name: 'Last Command Result',
+        },
+    },
+    {
+        id: 'commands.lastError',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: false,
+            name: 'Last Command Error',
+        },
+    },
+    {
+        id: 'commands.lastExecuted',
+        path: [],
+        common: {
+            type: 'number',
+            role: 'date',
+            read: true,
+            write: false,
+            name: 'Last Command Execution',
+        },
+    },
+    {
+        id: 'commands.inProgress',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'indicator.working',
+            read: true,
+            write: false,
+            def: false,
+            name: 'Command In Progress',
+        },
+    },
 ];
 
 /**
@@ -1021,3 +1721,231 @@ export const VM_CONTROL_STATES: StateMapping[] = [
         },
     },
 ];
+
+/**
+ * Parity check control state mappings
+ */
+export const PARITY_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Parity Check (Read-Only)',
+        },
+    },
+    {
+        id: 'commands.startCorrecting',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Parity Check (Write Corrections)',
+        },
+    },
+    {
+        id: 'commands.pause',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.pause',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Pause Parity Check',
+        },
+    },
+    {
+        id: 'commands.resume',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.resume',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Resume Parity Check',
+        },
+    },
+    {
+        id: 'commands.cancel',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Cancel Parity Check',
+        },
+    },
+];
+
+/**
+ * Array control state mappings.
+ * Start and stop are only executed while the array control is armed.
+ */
+export const ARRAY_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.arm',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Arm Array Start/Stop',
+        },
+    },
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Array',
+        },
+    },
+    {
+        id: 'commands.stop',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Stop Array',
+        },
+    },
+];
+
+/**
+ * Notification control state mappings.
+ * Buttons act on all notifications, text states take a notification ID or JSON payload.
+ */
+export const NOTIFICATION_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.archiveAll',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Notifications',
+        },
+    },
+    {
+        id: 'commands.archiveAllInfo',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Info Notifications',
+        },
+    },
+    {
+        id: 'commands.archiveAllWarning',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Warnings',
+        },
+    },
+    {
+        id: 'commands.archiveAllAlert',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Alerts',
+        },
+    },
+    {
+        id: 'commands.deleteArchived',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Delete All Archived Notifications',
+        },
+    },
+    {
+        id: 'commands.archive',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Archive Notification',
+            desc: 'Write a notification ID',
+        },
+    },
+    {
+        id: 'commands.unread',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Mark Notification Unread',
+            desc: 'Write a notification ID',
+        },
+    },
+    {
+        id: 'commands.delete',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Delete Notification',
+            desc: 'Write a notification ID or {"id": "...", "type": "UNREAD|ARCHIVE"}',
+        },
+    },
+    {
+        id: 'commands.create',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'json',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Create Notification',
+            desc: 'Write {"title": "...", "subject": "...", "description": "...", "importance": "INFO|WARNING|ALERT", "link": "..."}',
+        },
+    },
+];
@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { ServerConfig } from './config/adapter-config';
+import type { AdapterInterface } from './types/adapter-types';
+import { createScopedAdapter } from './unraid-server';
+
+describe('createScopedAdapter', () => {
+    const server: ServerConfig = {
+        id: 'tower',
+        name: 'Tower',
+        baseUrl: 'http://tower',
+        apiToken: 'token',
+        allowSelfSigned: false,
+    };
+
+    /**
+     * Scoped view of an adapter stub whose methods record their calls
+     */
+    function setup(): { scoped: AdapterInterface; stubs: Record<string, sinon.SinonStub> } {
+        const stubs = {
+            setObjectAsync: sinon.stub().resolves(),
+            extendObjectAsync: sinon.stub().resolves(),
+            getObjectAsync: sinon.stub().resolves(null),
+            delObjectAsync: sinon.stub().resolves(),
+            setStateAsync: sinon.stub().resolves(),
+            getStateAsync: sinon.stub().resolves(null),
+            getStatesAsync: sinon.stub().resolves({}),
+            getAdapterObjectsAsync: sinon.stub().resolves({
+                'unraid.0.info.connection': { type: 'state' },
+                'unraid.0.tower': { type: 'device' },
+                'unraid.0.tower.docker.containers.count': { type: 'state' },
+                'unraid.0.tower2.docker.containers.count': { type: 'state' },
+                'unraid.0.nas.docker.containers.count': { type: 'state' },
+            }),
+            registerNotification: sinon.stub().resolves(),
+            subscribeStates: sinon.stub(),
+            warn: sinon.stub(),
+        };
+        const adapter = {
+            ...stubs,
+            namespace: 'unraid.0',
+            log: { level: 'info', silly: sinon.stub(), debug: sinon.stub(), info: sinon.stub(), warn: stubs.warn },
+        };
+        return { scoped: createScopedAdapter(adapter as unknown as AdapterInterface, server), stubs };
+    }
+
+    for (const method of [
+        'setObjectAsync',
+        'extendObjectAsync',
+        'getObjectAsync',
+        'delObjectAsync',
+        'setStateAsync',
+        'getStateAsync',
+    ]) {
+        it(`prefixes relative IDs of ${method} with the server ID`, async () => {
+            const { scoped, stubs } = setup();
+            const call = (scoped as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[method];
+
+            await call('docker.containers.count', 'value', true);
+            await call('unraid.0.tower.array.state', 'value');
+
+            expect(stubs[method].firstCall.args).to.deep.equal(['tower.docker.containers.count', 'value', true]);
+            expect(stubs[method].secondCall.args).to.deep.equal(['unraid.0.tower.array.state', 'value']);
+        });
+    }
+
+    it('prefixes the pattern of getStatesAsync', async () => {
+        const { scoped, stubs } = setup();
+
+        await scoped.getStatesAsync('*');
+
+        expect(stubs.getStatesAsync.calledOnceWith('tower.*')).to.equal(true);
+    });
+
+    it('only returns the objects of its own server from getAdapterObjectsAsync', async () => {
+        const { scoped } = setup();
+
+        const objects = await scoped.getAdapterObjectsAsync();
+
+        expect(Object.keys(objects)).to.deep.equal(['unraid.0.tower.docker.containers.count']);
+    });
+
+    it('uses the server subtree as namespace and labels log messages and notifications', async () => {
+        const { scoped, stubs } = setup();
+
+        scoped.log.warn('Unreachable');
+        await scoped.registerNotification('unraid', 'alert', 'Disk failed');
+
+        expect(scoped.namespace).to.equal('unraid.0.tower');
+        expect(stubs.warn.calledOnceWith('[Tower] Unreachable')).to.equal(true);
+        expect(stubs.registerNotification.calledOnceWith('unraid', 'alert', '[Tower] Disk failed')).to.equal(true);
+    });
+
+    it('passes other methods to the adapter unchanged', () => {
+        const { scoped, stubs } = setup();
+
+        scoped.subscribeStates('*');
+
+        expect(stubs.subscribeStates.calledOnceWith('*')).to.equal(true);
+    });
+});
@@ -0,0 +1,552 @@
+import { UnraidApolloClient } from './apollo-client';
+import { StateManager } from './managers/state-manager';
+import { DynamicResourceManager } from './managers/dynamic-resource-manager';
+import { PollingManager } from './managers/polling-manager';
+import { ObjectManager } from './managers/object-manager';
+import { ControlManager } from './managers/control-manager';
+import { SubscriptionManager, getSubscriptionDomains } from './managers/subscription-manager';
+import { NotificationManager } from './managers/notification-manager';
+import { PermissionManager, type AccessReport } from './managers/permission-manager';
+import { SchemaCapabilities } from './graphql/schema-capabilities';
+import type { AdapterConfig, ServerConfig } from './config/adapter-config';
+import type { AdapterInterface } from './types/adapter-types';
+import {
+    domainDefinitionById,
+    getDomainErrorStateId,
+    type DomainDefinition,
+    type DomainId,
+} from './shared/unraid-domains';
+
+/** Adapter methods whose first argument is an object or state ID */
+const ID_METHODS = [
+    'setObjectAsync',
+    'extendObjectAsync',
+    'getObjectAsync',
+    'delObjectAsync',
+    'setStateAsync',
+    'getStateAsync',
+] as const;
+
+/**
+ * Connection to one Unraid server with its own client, managers and poll scheduler.
+ * A failing server does not affect the other servers of the adapter instance.
+ */
+export class UnraidServer {
+    /** Adapter view writing below the object subtree of this server */
+    private readonly adapter: AdapterInterface;
+    private apolloClient?: UnraidApolloClient;
+    private stateManager?: StateManager;
+    private dynamicResourceManager?: DynamicResourceManager;
+    private pollingManager?: PollingManager;
+    private controlManager?: ControlManager;
+    private objectManager?: ObjectManager;
+    private subscriptionManager?: SubscriptionManager;
+    private notificationManager?: NotificationManager;
+    private capabilities?: SchemaCapabilities;
+
+    private selection: Set<DomainId> = new Set();
+    private definitions: DomainDefinition[] = [];
+    private effectiveSelection: Set<DomainId> = new Set();
+    /** Domains not queried because of the API key or the API version, with the reason */
+    private disabledDomains = new Map<DomainId, string>();
+    /** The permissions of the API key could not be read */
+    private permissionsUnknown = false;
+    private accessRecheck?: Promise<void>;
+
+    /**
+     * Create a new server connection
+     *
+     * @param rootAdapter - Adapter instance
+     * @param server - Connection settings of the server
+     * @param config - Validated adapter configuration
+     * @param onConnectionChange - Callback function when the server becomes reachable or unreachable
+     */
+    constructor(
+        private readonly rootAdapter: AdapterInterface,
+        private readonly server: ServerConfig,
+        private readonly config: AdapterConfig,
+        private readonly onConnectionChange: (connected: boolean) => Promise<void>,
+    ) {
+        this.adapter = server.id ? createScopedAdapter(rootAdapter, server) : rootAdapter;
+    }
+
+    /**
+     * Object ID of the server subtree, empty for the single server at the adapter root
+     */
+    get id(): string {
+        return this.server.id;
+    }
+
+    /**
+     * Name of the server for log messages
+     */
+    get label(): string {
+        return this.server.name || this.server.baseUrl;
+    }
+
+    /**
+     * Create the objects of the selected domains and start polling and subscriptions
+     *
+     * @param selection - Selected domain IDs including dependencies
+     * @param definitions - Domain definitions of the selection
+     */
+    async start(selection: Set<DomainId>, definitions: DomainDefinition[]): Promise<void> {
+        this.selection = selection;
+        this.definitions = definitions;
+        this.effectiveSelection = selection;
+
+        // Initialize managers
+        this.stateManager = new StateManager(this.adapter);
+        this.objectManager = new ObjectManager(this.adapter, this.stateManager);
+        this.dynamicResourceManager = new DynamicResourceManager(this.adapter, this.stateManager);
+        this.dynamicResourceManager.setObjectManager(this.objectManager);
+        this.dynamicResourceManager.setStableResourceIds(this.config.stableResourceIds);
+        this.dynamicResourceManager.setResourceFilters(this.config.resourceFilters);
+        this.notificationManager = new NotificationManager(this.adapter, this.stateManager);
+
+        // Initialize Apollo Client
+        this.apolloClient = new UnraidApolloClient({
+            baseUrl: this.server.baseUrl,
+            apiToken: this.server.apiToken,
+            allowSelfSigned: this.server.allowSelfSigned,
+            logger: this.adapter.log,
+        });
+
+        // Initialize polling manager
+        this.pollingManager = new PollingManager(
+            this.adapter,
+            this.apolloClient,
+            this.handlePolledData.bind(this),
+            async connected => {
+                if (this.server.id) {
+                    await this.adapter.setStateAsync('info.connection', connected, true);
+                }
+                await this.onConnectionChange(connected);
+                if (!connected && this.config.markStaleWhenOffline) {
+                    await this.stateManager?.markAllStale();
+                }
+                // Checks that failed while the server was offline are repeated once it is reachable
+                if (connected && (this.permissionsUnknown || !this.capabilities)) {
+                    this.recheckAccess();
+                }
+            },
+        );
+
+        // Initialize control manager
+        this.controlManager = new ControlManager(this.adapter, this.apolloClient, async domains => {
+            await this.pollingManager?.poll(domains);
+        });
+
+        // Servers of a server list get their own device below the adapter root
+        if (this.server.id) {
+            await this.rootAdapter.setObjectAsync(this.server.id, {
+                type: 'device',
+                common: { name: this.server.name },
+                native: { baseUrl: this.server.baseUrl },
+            });
+            await this.stateManager.writeState(
+                'info.connection',
+                { type: 'boolean', role: 'indicator.connected' },
+                false,
+            );
+        }
+
+        // Initialize object manager and clean up unselected domains
+        await this.objectManager.initialize(definitions, this.config.stableResourceIds);
+        await this.objectManager.cleanupUnselectedDomains(selection);
+
+        // Initialize static states
+        await this.stateManager.initializeStaticStates(definitions);
+
+        // Expose where subscription-capable domains currently get their data from
+        for (const domain of getSubscriptionDomains(selection)) {
+            await this.stateManager.writeState(`${domain}.dataSource`, { type: 'string', role: 'text' }, 'poll');
+        }
+
+        // Expose query errors per domain, cleared by the next successful query
+        for (const definition of definitions) {
+            await this.stateManager.writeState(
+                getDomainErrorStateId(definition.id),
+                { type: 'string', role: 'text' },
+                null,
+            );
+        }
+
+        // Start polling what the API key may read and the API version of the server supports
+        const access = await this.applyAccess();
+
+        // Start live updates for domains that support subscriptions
+        if (this.config.useSubscriptions) {
+            this.initializeSubscriptions(new Set([...selection].filter(domain => !access?.deniedDomains.has(domain))));
+        }
+    }
+
+    /**
+     * Check whether a state belongs to the object subtree of this server
+     *
+     * @param id - Full state ID
+     */
+    ownsState(id: string): boolean {
+        return !this.server.id || id.startsWith(`${this.adapter.namespace}.`);
+    }
+
+    /**
+     * Handle a state change below the subtree of this server
+     *
+     * @param id - State ID that changed
+     * @param state - New state value
+     */
+    async handleStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
+        if (this.controlManager) {
+            await this.controlManager.handleStateChange(id, state);
+        } else {
+            this.adapter.log.warn(`ControlManager not initialized, cannot handle state change for ${id}`);
+        }
+    }
+
+    /**
+     * Stop polling and subscriptions and release the client
+     */
+    stop(): void {
+        this.pollingManager?.stop();
+        this.subscriptionManager?.stop();
+        this.controlManager?.dispose();
+
+        // Report the connection of this server as lost (fire and forget)
+        if (this.server.id) {
+            this.adapter.setStateAsync('info.connection', false, true).catch(error => {
+                this.adapter.log.debug(`Failed to reset connection state: ${this.describeError(error)}`);
+            });
+        }
+
+        // Dispose Apollo client (fire and forget)
+        if (this.apolloClient) {
+            this.apolloClient.dispose().catch(error => {
+                this.adapter.log.warn(`Failed to dispose Apollo client: ${this.describeError(error)}`);
+            });
+            this.apolloClient = undefined;
+        }
+
+        // Clear managers
+        this.stateManager?.clear();
+        this.stateManager = undefined;
+        this.dynamicResourceManager = undefined;
+        this.pollingManager = undefined;
+        this.controlManager = undefined;
+        this.objectManager = undefined;
+        this.subscriptionManager = undefined;
+        this.notificationManager = undefined;
+    }
+
+    /**
+     * Check what the API key may use and the Unraid API supports, then create the command buttons and start polling.
+     * Domains the key may not read or the API does not support keep the reason in `errors.<domain>`.
+     *
+     * @returns Denied domains and commands, null if the permissions of the key are unknown
+     */
+    private async applyAccess(): Promise<AccessReport | null> {
+        if (!this.apolloClient || !this.stateManager || !this.dynamicResourceManager || !this.pollingManager) {
+            return null;
+        }
+
+        const access = await new PermissionManager(this.adapter, this.apolloClient, this.stateManager).check(
+            this.definitions,
+            this.selection,
+        );
+        this.permissionsUnknown = !access;
+        this.dynamicResourceManager.setDeniedCommands(access?.deniedCommands ?? []);
+        await this.dynamicResourceManager.createArrayControlButtons(this.selection);
+        await this.dynamicResourceManager.createNotificationControlButtons(this.selection);
+
+        const disabledDomains = new Map(access?.deniedDomains);
+        const supportedDefinitions = await this.filterSupportedDefinitions(
+            this.definitions.filter(definition => !disabledDomains.has(definition.id)),
+            disabledDomains,
+        );
+
+        // Only changed reasons are written, so query errors of enabled domains stay untouched
+        for (const definition of this.definitions) {
+            const reason = disabledDomains.get(definition.id) ?? null;
+            if (reason !== (this.disabledDomains.get(definition.id) ?? null)) {
+                await this.stateManager.updateState(getDomainErrorStateId(definition.id), reason);
+            }
+        }
+        this.disabledDomains = disabledDomains;
+
+        // Domains with their own interval get separate queries
+        const domainIntervalsMs = new Map<DomainId, number>();
+        for (const [domain, seconds] of Object.entries(this.config.domainIntervals)) {
+            domainIntervalsMs.set(domain as DomainId, seconds * 1000);
+        }
+        this.pollingManager.start(this.config.pollIntervalSeconds * 1000, supportedDefinitions, domainIntervalsMs);
+        return access;
+    }
+
+    /**
+     * Repeat the permission check and schema introspection in the background and restart polling
+     * with the result. Runs at most once at a time.
+     */
+    private recheckAccess(): void {
+        if (this.accessRecheck) {
+            return;
+        }
+
+        this.adapter.log.info('Checking the permissions of the API key and the Unraid API version again');
+        this.accessRecheck = this.applyAccess()
+            .then(() => undefined)
+            .catch(error => {
+                this.adapter.log.warn(`Failed to check the access again: ${this.describeError(error)}`);
+            })
+            .finally(() => {
+                this.accessRecheck = undefined;
+            });
+    }
+
+    /**
+     * Drop fields the Unraid API of this server does not know from the domain selections.
+     * Without introspection the selections are used unchanged, except for domains that need newer fields.
+     * The schema is introspected until it could be read once.
+     * Dropped domains are removed from the effective selection, so no handler waits for their data.
+     *
+     * @param definitions - Domain definitions of the selection
+     * @param disabledDomains - Receives the dropped domains with the reason
+     * @returns Definitions of the domains that can be queried
+     */
+    private async filterSupportedDefinitions(
+        definitions: DomainDefinition[],
+        disabledDomains: Map<DomainId, string>,
+    ): Promise<DomainDefinition[]> {
+        if (!this.capabilities) {
+            const schema = await this.apolloClient?.introspectSchema();
+            this.capabilities = schema ? new SchemaCapabilities(schema) : undefined;
+        }
+
+        const unsupported = new Set<DomainId>();
+        const supported: DomainDefinition[] = [];
+
+        if (!this.capabilities) {
+            this.adapter.log.info('Schema introspection not available, querying all selected fields');
+            for (const definition of definitions) {
+                if (!definition.requiresCapabilityCheck) {
+                    supported.push(definition);
+                    continue;
+                }
+                this.adapter.log.warn(`Domain ${definition.id} is disabled, its fields could not be checked`);
+                disabledDomains.set(definition.id, 'Needs a newer Unraid API, which could not be checked');
+                unsupported.add(definition.id);
+            }
+            this.setEffectiveSelection(unsupported);
+            return supported;
+        }
+
+        for (const definition of definitions) {
+            const { definition: filtered, removed } = this.capabilities.filterDefinition(definition);
+            if (!filtered) {
+                this.adapter.log.warn(
+                    `Domain ${definition.id} is disabled, the Unraid API does not support: ${removed.join(', ')}`,
+                );
+                disabledDomains.set(definition.id, 'Not supported by the Unraid API version of this server');
+                unsupported.add(definition.id);
+                continue;
+            }
+
+            if (removed.length) {
+                this.adapter.log.info(
+                    `Skipping fields of ${definition.id} not supported by the Unraid API: ${removed.join(', ')}`,
+                );
+            }
+            supported.push(filtered);
+        }
+        this.setEffectiveSelection(unsupported);
+        return supported;
+    }
+
+    /**
+     * Set the effective selection of this server to the selection without the given domains.
+     * The selection passed to start() is shared by all servers and stays unchanged.
+     *
+     * @param unsupported - Domain IDs to leave out
+     */
+    private setEffectiveSelection(unsupported: ReadonlySet<DomainId>): void {
+        this.effectiveSelection = unsupported.size
+            ? new Set([...this.selection].filter(domain => !unsupported.has(domain)))
+            : this.selection;
+    }
+
+    /**
+     * Start GraphQL subscriptions for the selected domains.
+     * Polling for a domain is paused while its stream delivers data.
+     *
+     * @param domains - Selected domains the API key may read
+     */
+    private initializeSubscriptions(domains: Set<DomainId>): void {
+        if (!this.apolloClient) {
+            return;
+        }
+
+        this.subscriptionManager = new SubscriptionManager(
+            this.adapter,
+            this.apolloClient,
+            this.handleSubscriptionData.bind(this),
+            (domain, healthy) => {
+                if (healthy) {
+                    this.adapter.log.info(`Live updates active for ${domain}, polling paused`);
+                    this.pollingManager?.pauseDomain(domain);
+                } else {
+                    this.adapter.log.warn(`Live updates for ${domain} stopped, falling back to polling`);
+                    this.pollingManager?.resumeDomain(domain);
+                }
+
+                void this.stateManager
+                    ?.updateState(`${domain}.dataSource`, healthy ? 'subscription' : 'poll')
+                    .catch(error => {
+                        this.adapter.log.warn(
+                            `Failed to update data source of ${domain}: ${this.describeError(error)}`,
+                        );
+                    });
+            },
+            domain => {
+                this.adapter.log.debug(`Live event for ${domain}, refreshing`);
+                void this.pollingManager?.poll([domain]);
+            },
+        );
+
+        const started = this.subscriptionManager.start(domains, this.capabilities);
+        if (!started.length) {
+            this.adapter.log.debug('No selected domain supports subscriptions, using polling only');
+        }
+    }
+
+    /**
+     * Handle data received from polling
+     *
+     * @param data - GraphQL query result data
+     * @param definitions - Domain definitions included in the query
+     */
+    private async handlePolledData(
+        data: Record<string, unknown>,
+        definitions: readonly DomainDefinition[],
+    ): Promise<void> {
+        if (!this.objectManager) {
+            this.adapter.log.error('Managers not initialized');
+            return;
+        }
+
+        // Start new poll cycle for object tracking
+        this.objectManager.beginPollCycle();
+
+        await this.applyData(data, definitions);
+    }
+
+    /**
+     * Handle data received from a subscription
+     *
+     * @param domain - Domain fed by the subscription
+     * @param data - Subscription payload in polled-result shape
+     * @param partial - Payload only contains the changed item of a list
+     */
+    private async handleSubscriptionData(
+        domain: DomainId,
+        data: Record<string, unknown>,
+        partial: boolean,
+    ): Promise<void> {
+        const definition = domainDefinitionById.get(domain);
+        if (!definition) {
+            return;
+        }
+
+        await this.applyData(data, [definition], partial);
+    }
+
+    /**
+     * Write received data into dynamic and static states
+     *
+     * @param data - Data in the shape of a GraphQL query result
+     * @param definitions - Domain definitions to apply
+     * @param partial - Data only contains changed list items, skip resource detection and cleanup
+     */
+    private async applyData(
+        data: Record<string, unknown>,
+        definitions: readonly DomainDefinition[],
+        partial = false,
+    ): Promise<void> {
+        if (!this.stateManager || !this.dynamicResourceManager) {
+            this.adapter.log.error('Managers not initialized');
+            return;
+        }
+
+        // Handle dynamic resources
+        await this.dynamicResourceManager.handleDynamicCpuCores(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicArrayDisks(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicHardwareDisks(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicDockerContainers(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleContainerUpdateStatuses(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicDockerNetworks(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicShares(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicVms(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicUpsDevices(data, this.effectiveSelection, partial);
+
+        // Apply static definitions
+        for (const definition of definitions) {
+            await this.stateManager.applyDefinition(definition, data);
+        }
+
+        // Raise new Unraid alerts and warnings as ioBroker notifications
+        await this.notificationManager?.handleNotifications(data, this.effectiveSelection);
+    }
+
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
+
+/**
+ * Create a view of the adapter that keeps all objects of a server below its own device.
+ * Relative IDs get the server ID as prefix, full IDs (e.g. from state changes) are passed unchanged.
+ * The managers work on this view exactly like on the adapter itself.
+ *
+ * @param adapter - Adapter instance
+ * @param server - Server owning the subtree
+ * @returns Adapter view scoped to the server subtree
+ */
+export function createScopedAdapter(adapter: AdapterInterface, server: ServerConfig): AdapterInterface {
+    const namespace = `${adapter.namespace}.${server.id}`;
+    const scopeId = (id: string): string => (id.startsWith(`${adapter.namespace}.`) ? id : `${server.id}.${id}`);
+    const label = (message: string): string => `[${server.name}] ${message}`;
+
+    const overrides: Record<PropertyKey, unknown> = {
+        namespace,
+        log: {
+            level: adapter.log.level,
+            silly: (message: string) => adapter.log.silly(label(message)),
+            debug: (message: string) => adapter.log.debug(label(message)),
+            info: (message: string) => adapter.log.info(label(message)),
+            warn: (message: string) => adapter.log.warn(label(message)),
+            error: (message: string) => adapter.log.error(label(message)),
+        },
+        getAdapterObjectsAsync: async () => {
+            const objects = await adapter.getAdapterObjectsAsync();
+            return Object.fromEntries(Object.entries(objects).filter(([id]) => id.startsWith(`${namespace}.`)));
+        },
+        getStatesAsync: (pattern: string) => adapter.getStatesAsync(scopeId(pattern)),
+        registerNotification: (scope: string, category: string | null, message: string) =>
+            adapter.registerNotification(scope as 'unraid', category, label(message)),
+    };
+    for (const method of ID_METHODS) {
+        overrides[method] = (id: string, ...args: unknown[]) =>
+            (adapter[method] as (...params: unknown[]) => unknown).call(adapter, scopeId(id), ...args);
+    }
+
+    return new Proxy(adapter, {
+        get: (target, property) => {
+            if (property in overrides) {
+                return overrides[property];
+            }
+            const value: unknown = Reflect.get(target, property);
+            return typeof value === 'function' ? (value as (...params: unknown[]) => unknown).bind(target) : value;
+        },
+    });
+}
@@ -151,3 +151,168 @@ export function sanitizeResourceName(name: string): string {
         .replace(/^\//, '') // Remove leading slash (Docker containers)
         .replace(/[^a-zA-Z0-9_-]/g, '_'); // Keep only safe chars
 }
+
+/**
+ * Format Docker container ports as readable list, e.g. "8080->80/tcp, 53/udp".
+ * Bindings that only differ by IPv4/IPv6 wildcard address are listed once.
+ *
+ * @param ports - Port list from the API (ip, privatePort, publicPort, type)
+ * @returns Comma separated port list, empty string if no ports, null if not available
+ */
+export function formatContainerPorts(ports: unknown): string | null {
+    if (!Array.isArray(ports)) {
+        return null;
+    }
+
+    const formatted = new Set<string>();
+    for (const port of ports) {
+        if (!port || typeof port !== 'object') {
+            continue;
+        }
+        const { ip, privatePort, publicPort, type } = port as Record<string, unknown>;
+        const protocol = toStringOrNull(type)?.toLowerCase() ?? 'tcp';
+        const privateNumber = toNumberOrNull(privatePort);
+        const publicNumber = toNumberOrNull(publicPort);
+        if (privateNumber === null && publicNumber === null) {
+            continue;
+        }
+
+        const host = toStringOrNull(ip);
+        const hostPrefix = host && host !== '0.0.0.0' && host !== '::' ? `${host}:` : '';
+        if (publicNumber === null) {
+            formatted.add(`${privateNumber}/${protocol}`);
+        } else {
+            formatted.add(`${hostPrefix}${publicNumber}->${privateNumber ?? publicNumber}/${protocol}`);
+        }
+    }
+
+    return [...formatted].join(', ');
+}
+
+/**
+ * Extract the IP addresses of a Docker container from its network settings
+ *
+ * @param networkSettings - Docker network settings JSON (Networks.<name>.IPAddress)
+ * @returns Comma separated IP addresses, empty string if none, null if not available
+ */
+export function extractContainerIpAddresses(networkSettings: unknown): string | null {
+    if (!networkSettings || typeof networkSettings !== 'object') {
+        return null;
+    }
+
+    const settings = networkSettings as Record<string, unknown>;
+    const addresses = new Set<string>();
+
+    const networks = settings.Networks;
+    if (networks && typeof networks === 'object') {
+        for (const network of Object.values(networks as Record<string, unknown>)) {
+            const address = toStringOrNull((network as Record<string, unknown> | null)?.IPAddress);
+            if (address) {
+                addresses.add(address);
+            }
+        }
+    }
+
+    const primaryAddress = toStringOrNull(settings.IPAddress);
+    if (primaryAddress) {
+        addresses.add(primaryAddress);
+    }
+
+    return [...addresses].join(', ');
+}
+
+/**
+ * Extract subnets and gateways from a Docker network IPAM configuration
+ *
+ * @param ipam - Docker IPAM JSON (Config[].Subnet / Config[].Gateway)
+ * @returns Comma separated subnets and gateways
+ */
+export function extractNetworkIpam(ipam: unknown): { subnets: string; gateways: string } {
+    const subnets: string[] = [];
+    const gateways: string[] = [];
+
+    const config = ipam && typeof ipam === 'object' ? (ipam as Record<string, unknown>).Config : null;
+    if (Array.isArray(config)) {
+        for (const entry of config) {
+            const { Subnet, Gateway } = (entry ?? {}) as Record<string, unknown>;
+            const subnet = toStringOrNull(Subnet);
+            const gateway = toStringOrNull(Gateway);
+            if (subnet) {
+                subnets.push(subnet);
+            }
+            if (gateway) {
+                gateways.push(gateway);
+            }
+        }
+    }
+
+    return { subnets: subnets.join(', '), gateways: gateways.join(', ') };
+}
+
+/**
+ * Extract the names of containers attached to a Docker network
+ *
+ * @param containers - Docker network containers JSON, keyed by container ID
+ * @returns Sorted container names
+ */
+export function extractNetworkContainerNames(containers: unknown): string[] {
+    if (!containers || typeof containers !== 'object') {
+        return [];
+    }
+
+    const names: string[] = [];
+    for (const [containerId, container] of Object.entries(containers as Record<string, unknown>)) {
+        const name = toStringOrNull((container as Record<string, unknown> | null)?.Name);
+        names.push((name ?? containerId).replace(/^\//, ''));
+    }
+
+    return names.sort((left, right) => left.localeCompare(right));
+}
+
+/**
+ * Map container names to their image update status
+ *
+ * @param statuses - Docker container update status list (name / updateStatus)
+ * @returns Update status per container name
+ */
+export function extractContainerUpdateStatuses(statuses: unknown): Map<string, string> {
+    const result = new Map<string, string>();
+    if (!Array.isArray(statuses)) {
+        return result;
+    }
+
+    for (const entry of statuses) {
+        const { name, updateStatus } = (entry ?? {}) as Record<string, unknown>;
+        const containerName = toStringOrNull(name)?.replace(/^\//, '');
+        const status = toStringOrNull(updateStatus);
+        if (containerName && status) {
+            result.set(containerName, status);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Map a VM state to the value of its desired-state control
+ *
+ * @param state - VM state reported by the API
+ * @returns running, paused, shutoff or null for unknown states
+ */
+export function toVmDesiredState(state: unknown): string | null {
+    switch (state) {
+        case 'RUNNING':
+        case 'IDLE':
+            return 'running';
+        case 'PAUSED':
+        case 'PMSUSPENDED':
+            return 'paused';
+        case 'SHUTDOWN':
+        case 'SHUTOFF':
+        case 'NOSTATE':
+        case 'CRASHED':
+            return 'shutoff';
+        default:
+            return null;
+    }
+}